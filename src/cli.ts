@@ -2,7 +2,18 @@ import { Command } from 'commander';
 import { initCommand } from './commands/init.js';
 import { listCommand } from './commands/list.js';
 import { installCommand } from './commands/install.js';
+import { ciCommand } from './commands/ci.js';
+import { outdatedCommand } from './commands/outdated.js';
+import { updateCommand } from './commands/update.js';
+import { verifyCommand } from './commands/verify.js';
+import { pruneCommand } from './commands/prune.js';
+import { doctorCommand } from './commands/doctor.js';
+import { cacheListCommand, cacheCleanCommand, cacheVerifyCommand } from './commands/cache.js';
 import { uninstallCommand } from './commands/uninstall.js';
+import { linkCommand, unlinkCommand } from './commands/link.js';
+import { devCommand } from './commands/dev.js';
+import { lintCommand } from './commands/lint.js';
+import { scanCommand } from './commands/scan.js';
 import { searchCommand } from './commands/search.js';
 import { infoCommand } from './commands/info.js';
 import { loginCommand } from './commands/login.js';
@@ -60,15 +71,39 @@ cli
 
 // install command
 cli
-  .command('install <skill>')
+  .command('install [skills...]')
   .alias('i')
   .alias('add')
-  .description('Install a skill from registry, GitHub, or URL')
+  .description('Install skills from registry, GitHub, or URL (no argument restores from lock file)')
   .option('-g, --global', 'Install globally (~/.claude/skills)')
   .option('-f, --force', 'Overwrite existing skill')
   .option('-y, --yes', 'Skip confirmation prompts')
-  .action(async (skill, options) => {
-    await installCommand(skill, options);
+  .option('-a, --all', 'Install every skill found in the repository')
+  .option('-s, --skill <names>', 'Comma-separated skills to install from the repository')
+  .option('--as <name>', 'Install the skill under a different local name')
+  .option('--fail-fast', 'Stop at the first source that fails when installing several')
+  .option('--offline', 'Install only from the download cache')
+  .option('--skip-validation', 'Install skills whose SKILL.md fails frontmatter validation')
+  .option('--skip-scan', 'Install skills the security scan flags as dangerous')
+  .option('--allow-escalation', 'Replace skills even if the new version gains tools or changes model/context/agent')
+  .action(async (skills: string[], options) => {
+    if (skills.length > 0) {
+      await installCommand(skills, options);
+    } else {
+      await ciCommand(options);
+    }
+  });
+
+// ci command
+cli
+  .command('ci')
+  .description('Reinstall every skill from the lock file at its pinned source')
+  .option('-g, --global', 'Restore global skills')
+  .option('--offline', 'Restore only from the download cache')
+  .option('--skip-validation', 'Restore skills whose SKILL.md fails frontmatter validation')
+  .option('--skip-scan', 'Restore skills the security scan flags as dangerous')
+  .action(async (options) => {
+    await ciCommand(options);
   });
 
 // uninstall command
@@ -83,6 +118,54 @@ cli
     await uninstallCommand(skill, options);
   });
 
+// link command
+cli
+  .command('link <path>')
+  .description('Symlink a local skill directory into the skills directory for development')
+  .option('-g, --global', 'Link into global directory')
+  .option('-f, --force', 'Replace an existing skill with the link')
+  .action(async (dir, options) => {
+    await linkCommand(dir, options);
+  });
+
+// unlink command
+cli
+  .command('unlink <skill>')
+  .description('Remove a linked skill, keeping its directory')
+  .option('-g, --global', 'Unlink from global directory')
+  .action(async (skill, options) => {
+    await unlinkCommand(skill, options);
+  });
+
+// dev command
+cli
+  .command('dev [path]')
+  .description('Watch a skill directory, validate it on every change and keep it linked')
+  .option('-g, --global', 'Link into global directory')
+  .option('-f, --force', 'Replace an installed skill of the same name with the link')
+  .action(async (dir, options) => {
+    await devCommand(dir, options);
+  });
+
+// lint command
+cli
+  .command('lint [paths...]')
+  .description('Check skills for common mistakes (rules configurable in .outclaw/lint.json)')
+  .option('--fix', 'Apply safe fixes')
+  .option('--json', 'Output as JSON')
+  .action(async (paths: string[], options) => {
+    await lintCommand(paths, options);
+  });
+
+// scan command
+cli
+  .command('scan <path>')
+  .description('Scan a skill for risky patterns before installing it')
+  .option('--json', 'Output as JSON')
+  .action(async (dir, options) => {
+    await scanCommand(dir, options);
+  });
+
 // list command
 cli
   .command('list')
@@ -95,6 +178,95 @@ cli
     await listCommand(options);
   });
 
+// outdated command
+cli
+  .command('outdated')
+  .description('Check installed skills for newer versions at their source')
+  .option('-g, --global', 'Check only global skills')
+  .option('-p, --project', 'Check only project skills')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await outdatedCommand(options);
+  });
+
+// update command
+cli
+  .command('update [skill]')
+  .alias('upgrade')
+  .description('Update installed skills to the latest version at their source')
+  .option('-g, --global', 'Update only global skills')
+  .option('-p, --project', 'Update only project skills')
+  .option('--json', 'Output as JSON')
+  .option('--skip-validation', 'Update skills whose SKILL.md fails frontmatter validation')
+  .option('--skip-scan', 'Apply updates the security scan flags as dangerous')
+  .option('--allow-escalation', 'Apply updates that gain tools or change model/context/agent')
+  .action(async (skill, options) => {
+    await updateCommand(skill, options);
+  });
+
+// verify command
+cli
+  .command('verify')
+  .description('Check installed skills against the hashes in the lock file')
+  .option('-g, --global', 'Verify only global skills')
+  .option('-p, --project', 'Verify only project skills')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await verifyCommand(options);
+  });
+
+// prune command
+cli
+  .command('prune')
+  .description('Reconcile skills directories with the lock file')
+  .option('-g, --global', 'Prune only global skills')
+  .option('-p, --project', 'Prune only project skills')
+  .option('-y, --yes', 'Delete unmanaged skill directories without asking')
+  .option('--dry-run', 'Show what would be pruned without changing anything')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await pruneCommand(options);
+  });
+
+// doctor command
+cli
+  .command('doctor')
+  .description('Show resolved paths and diagnose common setup problems')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await doctorCommand(options);
+  });
+
+// cache commands
+const cache = cli
+  .command('cache')
+  .description('Manage the shared download cache');
+
+cache
+  .command('ls')
+  .alias('list')
+  .description('List cached downloads')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await cacheListCommand(options);
+  });
+
+cache
+  .command('clean')
+  .description('Remove every cached download')
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .action(async (options) => {
+    await cacheCleanCommand(options);
+  });
+
+cache
+  .command('verify')
+  .description('Check cached downloads against their digests')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    await cacheVerifyCommand(options);
+  });
+
 // search command
 cli
   .command('search <query>')
@@ -0,0 +1,114 @@
+import chalk from 'chalk';
+import { confirm } from '@inquirer/prompts';
+import { listCache, cleanCache, verifyCache } from '../core/cache.js';
+import { logger } from '../ui/logger.js';
+import { renderTable } from '../ui/table.js';
+import { getCachePath } from '../utils/paths.js';
+
+export interface CacheListOptions {
+  json?: boolean;
+}
+
+export interface CacheCleanOptions {
+  yes?: boolean;
+}
+
+export interface CacheVerifyOptions {
+  json?: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function handleError(error: unknown): never {
+  if (error instanceof Error) {
+    logger.error(error.message);
+  } else {
+    logger.error('An unexpected error occurred');
+  }
+  process.exit(1);
+}
+
+export async function cacheListCommand(options: CacheListOptions): Promise<void> {
+  try {
+    const artifacts = await listCache();
+
+    if (options.json) {
+      console.log(JSON.stringify(artifacts, null, 2));
+      return;
+    }
+
+    if (artifacts.length === 0) {
+      logger.info('The download cache is empty.');
+      return;
+    }
+
+    renderTable({
+      headers: ['Key', 'Digest', 'Size', 'Stored'],
+      rows: artifacts.map((a) => [
+        a.key,
+        a.digest.slice(0, 12),
+        formatBytes(a.size),
+        new Date(a.storedAt).toLocaleDateString(),
+      ]),
+    });
+
+    const unique = new Map(artifacts.map((a) => [a.digest, a.size]));
+    const total = [...unique.values()].reduce((sum, size) => sum + size, 0);
+    logger.dim(`${artifacts.length} artifact(s), ${formatBytes(total)} in ${getCachePath()}`);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function cacheCleanCommand(options: CacheCleanOptions): Promise<void> {
+  try {
+    if (!options.yes) {
+      const proceed = await confirm({
+        message: 'Remove every cached download? Offline installs will need the network again.',
+        default: false,
+      });
+
+      if (!proceed) {
+        logger.info('Clean cancelled');
+        return;
+      }
+    }
+
+    const { removed, bytes } = await cleanCache();
+    logger.success(`Removed ${removed} artifact(s), freed ${formatBytes(bytes)}`);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function cacheVerifyCommand(options: CacheVerifyOptions): Promise<void> {
+  try {
+    const results = await verifyCache();
+    const failures = results.filter((r) => r.status !== 'ok');
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else if (results.length === 0) {
+      logger.info('The download cache is empty.');
+    } else if (failures.length === 0) {
+      logger.success(`All ${results.length} cached artifact(s) match their digests.`);
+    } else {
+      renderTable({
+        headers: ['Key', 'Digest', 'Status'],
+        rows: failures.map((r) => [r.key, r.digest.slice(0, 12), chalk.red(r.status)]),
+      });
+      logger.error(`${failures.length} of ${results.length} cached artifact(s) failed verification.`);
+      logger.dim('They are downloaded again on next use; run "outclaw cache clean" to drop them now.');
+    }
+
+    if (failures.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    handleError(error);
+  }
+}
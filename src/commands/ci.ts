@@ -0,0 +1,171 @@
+import { ZodError } from 'zod';
+import { SkillManager } from '../core/skill-manager.js';
+import { ApiError } from '../core/api-client.js';
+import { isLoggedIn } from '../core/config.js';
+import { readLockFile } from '../core/lockfile.js';
+import { fetchSkills, parseLockedSource, aliasSkill, type ResolvedSkill } from '../core/sources.js';
+import { formatValidationErrors } from '../parsers/skill-parser.js';
+import type { OutclawManifest, SkillManifest } from '../schemas/manifest.schema.js';
+import { logger } from '../ui/logger.js';
+import { spinner } from '../ui/spinner.js';
+import { computeIntegrity } from '../utils/integrity.js';
+import { getLockFilePathAsync, type Scope } from '../utils/paths.js';
+
+export interface CiOptions {
+  global?: boolean;
+  offline?: boolean;
+  skipValidation?: boolean;
+  skipScan?: boolean;
+}
+
+/**
+ * Check a freshly fetched skill against its lock entry
+ */
+function findDrift(entry: SkillManifest, skill: ResolvedSkill | undefined): string | null {
+  if (!skill) {
+    return `${entry.name}: no longer found at its recorded source`;
+  }
+  if (skill.source.resolvedCommit !== entry.source.resolvedCommit) {
+    return `${entry.name}: source resolved to ${skill.source.resolvedCommit}, lock has ${entry.source.resolvedCommit}`;
+  }
+  if (entry.integrity && computeIntegrity(skill.files) !== entry.integrity) {
+    return `${entry.name}: content at the source does not match the lock file integrity`;
+  }
+  return null;
+}
+
+export async function ciCommand(options: CiOptions): Promise<void> {
+  const scope: Scope = options.global ? 'global' : 'project';
+  const lockPath = await getLockFilePathAsync(scope);
+
+  let manifest: OutclawManifest | null;
+  try {
+    manifest = await readLockFile(scope);
+  } catch (error) {
+    logger.error(`Invalid lock file: ${lockPath}`);
+    if (error instanceof ZodError) {
+      for (const line of formatValidationErrors(error)) {
+        logger.dim(`  ${line}`);
+      }
+    } else if (error instanceof Error) {
+      logger.dim(`  ${error.message}`);
+    }
+    process.exit(1);
+  }
+
+  if (!manifest) {
+    logger.error(`No lock file found at ${lockPath}`);
+    logger.dim('Install skills with "outclaw install <skill>" to create one.');
+    process.exit(1);
+  }
+
+  if (manifest.skills.length === 0) {
+    logger.info('No skills in lock file.');
+    return;
+  }
+
+  // Repository sources must be pinned to be reproducible
+  const unpinned = manifest.skills.filter(
+    (s) => (s.source.type === 'github' || s.source.type === 'git') && !s.source.resolvedCommit
+  );
+  if (unpinned.length > 0) {
+    logger.error('Some lock entries are not pinned to a commit:');
+    for (const entry of unpinned) {
+      logger.dim(`  - ${entry.name} (${entry.source.url})`);
+    }
+    logger.dim('Reinstall them with "outclaw install <source> --force" to pin them.');
+    process.exit(1);
+  }
+
+  if (!options.offline && manifest.skills.some((s) => s.source.type === 'registry') && !(await isLoggedIn())) {
+    logger.error('You must be logged in to restore skills from the registry.');
+    logger.dim('Run "outclaw login" or set OUTCLAW_API_KEY.');
+    process.exit(1);
+  }
+
+  const spin = spinner(`Restoring ${manifest.skills.length} skill(s) from ${lockPath}...`).start();
+
+  try {
+    // Fetch everything first so a drifted entry leaves the skills directory untouched
+    const restored: Array<{ entry: SkillManifest; skill: ResolvedSkill }> = [];
+    const linked: SkillManifest[] = [];
+    const drift: string[] = [];
+
+    for (const entry of manifest.skills) {
+      // Linked skills are linked again rather than copied
+      if (entry.source.linked) {
+        linked.push(entry);
+        continue;
+      }
+
+      spin.text = `Fetching ${entry.name}...`;
+
+      // Aliased skills are looked up by the name declared at the source
+      const sourceName = entry.originalName ?? entry.name;
+
+      const skills = await fetchSkills(parseLockedSource(entry.source), {
+        lockedCommit: entry.source.resolvedCommit,
+        lockedVersion: entry.source.resolvedVersion,
+        offline: options.offline,
+        skipValidation: options.skipValidation,
+        select: async (candidates) => candidates.filter((c) => c.name === sourceName),
+      });
+      const fetched = skills.find((s) => s.name === sourceName);
+      const skill = fetched && entry.originalName ? aliasSkill(fetched, entry.name) : fetched;
+
+      const problem = findDrift(entry, skill);
+      if (problem) {
+        drift.push(problem);
+      } else {
+        restored.push({ entry, skill: skill! });
+      }
+    }
+
+    if (drift.length > 0) {
+      spin.fail('Lock file does not match its sources');
+      for (const problem of drift) {
+        logger.error(problem);
+      }
+      process.exit(1);
+    }
+
+    const manager = new SkillManager(scope);
+
+    for (const { entry, skill } of restored) {
+      spin.text = `Installing ${entry.name}...`;
+      // Dependencies are lock entries of their own
+      await manager.installSkill(entry.name, skill.files, {
+        force: true,
+        source: entry.source,
+        originalName: entry.originalName,
+        dependencies: false,
+        skipScan: options.skipScan,
+        onWarning: (message) => {
+          spin.clear();
+          logger.warn(message);
+        },
+      });
+    }
+
+    for (const entry of linked) {
+      spin.text = `Linking ${entry.name}...`;
+      await manager.linkSkill(entry.source.path!, { force: true });
+    }
+
+    spin.succeed(`Restored ${restored.length + linked.length} skill(s) from lock file`);
+  } catch (error) {
+    spin.fail('Restore failed');
+
+    if (error instanceof ApiError) {
+      if (error.statusCode === 401) {
+        logger.error('Authentication failed. Please run "outclaw login".');
+      } else {
+        logger.error(error.message);
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    }
+
+    process.exit(1);
+  }
+}
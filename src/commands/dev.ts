@@ -0,0 +1,118 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { SkillManager } from '../core/skill-manager.js';
+import { checkSkill, watchSkill, type SkillCheck } from '../core/dev.js';
+import { logger } from '../ui/logger.js';
+import { getSkillPathAsync, pathExists, type Scope } from '../utils/paths.js';
+
+export interface DevOptions {
+  global?: boolean;
+  force?: boolean;
+}
+
+function printCheck(dir: string, check: SkillCheck): void {
+  for (const error of check.errors) {
+    logger.error(`SKILL.md: ${error}`);
+  }
+
+  for (const d of check.diagnostics) {
+    const line = `${path.join(dir, d.file)}:${d.line}  ${d.message} ${chalk.dim(`(${d.rule})`)}`;
+    if (d.severity === 'error') {
+      logger.error(line);
+    } else {
+      logger.warn(line);
+    }
+  }
+
+  if (check.skill) {
+    logger.dim(`Tokens: ~${check.tokens.description} description (always loaded), ~${check.tokens.body} body (on use)`);
+  }
+}
+
+export async function devCommand(dir: string | undefined, options: DevOptions): Promise<void> {
+  const target = path.resolve(dir ?? '.');
+  const scope: Scope = options.global ? 'global' : 'project';
+  const manager = new SkillManager(scope);
+
+  if (!(await pathExists(path.join(target, 'SKILL.md')))) {
+    logger.error(`SKILL.md not found in ${target}`);
+    process.exit(1);
+  }
+
+  // Name of the link this session keeps in the skills directory
+  let linkedName: string | null = null;
+
+  /**
+   * Point a link in the skills directory at the working copy, following
+   * renames of the frontmatter name. The link itself always shows the latest
+   * files, so it is only recreated when the name changes or it points
+   * elsewhere; that keeps the skill loaded and the lock entry unchanged.
+   */
+  const syncLink = async (name: string) => {
+    const isLinked = (await manager.getLinkTarget(name)) === target;
+
+    if (!isLinked && !options.force && (await manager.skillExists(name))) {
+      logger.warn(`"${name}" is already installed in ${scope} skills and was not replaced. Use --force to link over it.`);
+      return;
+    }
+
+    if (linkedName && linkedName !== name) {
+      await manager.unlinkSkill(linkedName).catch(() => undefined);
+    }
+
+    if (!isLinked) {
+      await manager.linkSkill(target, { force: true });
+    }
+    if (linkedName !== name) {
+      logger.success(`Linked ${name} -> ${await getSkillPathAsync(name, scope)}`);
+    }
+    linkedName = name;
+  };
+
+  const run = async (changed?: string) => {
+    logger.info('');
+    logger.info(chalk.dim(`[${new Date().toLocaleTimeString()}]`) + (changed ? ` ${changed} changed` : ` Checking ${target}`));
+
+    try {
+      const check = await checkSkill(target);
+      printCheck(target, check);
+
+      if (!check.skill) {
+        logger.error('Skill is invalid and would not be loaded.');
+        return;
+      }
+
+      await syncLink(check.skill.name);
+
+      const errors = check.diagnostics.filter((d) => d.severity === 'error').length;
+      const warnings = check.diagnostics.length - errors;
+      if (check.diagnostics.length === 0) {
+        logger.success(`${check.skill.name} is valid`);
+      } else {
+        logger.info(`${check.skill.name}: ${errors} error(s), ${warnings} warning(s)`);
+      }
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  await run();
+
+  // Checks never overlap: a change during a check queues one more run
+  let running = Promise.resolve();
+
+  const stop = watchSkill(target, (file) => {
+    running = running.then(() => run(file));
+  });
+
+  logger.dim(`Watching ${target} for changes. Press Ctrl+C to stop.`);
+
+  process.on('SIGINT', () => {
+    stop();
+    logger.info('');
+    if (linkedName) {
+      logger.dim(`Stopped watching. ${linkedName} stays linked; run "outclaw unlink ${linkedName}" to remove it.`);
+    }
+    process.exit(0);
+  });
+}
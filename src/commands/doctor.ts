@@ -0,0 +1,77 @@
+import chalk from 'chalk';
+import { runDoctor, type DoctorCheck } from '../core/doctor.js';
+import { logger } from '../ui/logger.js';
+import { spinner } from '../ui/spinner.js';
+
+export interface DoctorOptions {
+  json?: boolean;
+}
+
+function printCheck(result: DoctorCheck): void {
+  const line = `${chalk.bold(result.name)}: ${result.message}`;
+
+  if (result.status === 'ok') {
+    logger.success(line);
+  } else if (result.status === 'warn') {
+    logger.warn(line);
+  } else {
+    logger.error(line);
+  }
+
+  for (const detail of result.details) {
+    logger.dim(`    ${detail}`);
+  }
+}
+
+export async function doctorCommand(options: DoctorOptions): Promise<void> {
+  const spin = spinner('Checking environment...').start();
+
+  try {
+    const report = await runDoctor();
+    spin.stop();
+
+    const failures = report.checks.filter((c) => c.status === 'fail');
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      const [global, project] = report.scopes;
+
+      logger.box('Resolved paths', [
+        `OpenClaw config: ${report.openclaw.configPath} (${report.openclaw.configSource})`,
+        `Workspace:       ${report.openclaw.workspace} (${report.openclaw.workspaceSource})`,
+        `Working dir:     ${report.cwd}`,
+        '',
+        `Global skills:   ${global.skillsPath}`,
+        `Global lock:     ${global.lockPath}`,
+        `Project skills:  ${project.skillsPath}`,
+        `Project lock:    ${project.lockPath}`,
+      ].join('\n'));
+      logger.info('');
+
+      for (const result of report.checks) {
+        printCheck(result);
+      }
+
+      logger.info('');
+      if (failures.length === 0) {
+        logger.success('No problems found.');
+      } else {
+        logger.error(`${failures.length} problem(s) found.`);
+      }
+    }
+
+    if (failures.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spin.fail('Doctor failed');
+
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -8,8 +8,7 @@ import { isLoggedIn, loadConfig } from '../core/config.js';
 import { logger } from '../ui/logger.js';
 import { spinner } from '../ui/spinner.js';
 import { parseSkillFrontmatter } from '../parsers/skill-parser.js';
-
-const CLAWHUB_REGISTRY = 'https://clawhub.ai';
+import { fetchClawHubSkill, downloadClawHubZip } from '../core/clawhub.js';
 
 export interface ForkOptions {
   version?: string;
@@ -18,52 +17,6 @@ export interface ForkOptions {
   description?: string;
 }
 
-/**
- * Fetch skill metadata from ClawHub
- */
-async function fetchClawHubSkill(slug: string): Promise<{
-  slug: string;
-  displayName?: string;
-  summary?: string;
-  latestVersion?: { version: string };
-}> {
-  const url = `${CLAWHUB_REGISTRY}/api/v1/skills/${encodeURIComponent(slug)}`;
-  const response = await fetch(url, {
-    headers: { Accept: 'application/json' },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Skill "${slug}" not found on ClawHub.`);
-    }
-    throw new Error(`ClawHub API error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = (await response.json()) as any;
-  // ClawHub returns { skill: { slug, displayName, summary, ... }, latestVersion: { version, ... } }
-  return {
-    slug: data.skill?.slug || slug,
-    displayName: data.skill?.displayName,
-    summary: data.skill?.summary,
-    latestVersion: data.latestVersion,
-  };
-}
-
-/**
- * Download skill zip from ClawHub
- */
-async function downloadClawHubZip(slug: string, version: string): Promise<Buffer> {
-  const url = `${CLAWHUB_REGISTRY}/api/v1/download?slug=${encodeURIComponent(slug)}&version=${encodeURIComponent(version)}`;
-  const response = await fetch(url);
-
-  if (!response.ok) {
-    throw new Error(`Failed to download skill: ${response.status} ${response.statusText}`);
-  }
-
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
-}
-
 /**
  * Extract SKILL.md from zip and check file count
  */
@@ -1,10 +1,21 @@
 export * from './init.js';
 export * from './list.js';
 export * from './install.js';
+export * from './ci.js';
+export * from './outdated.js';
+export * from './update.js';
+export * from './verify.js';
+export * from './prune.js';
+export * from './doctor.js';
 export * from './uninstall.js';
+export * from './link.js';
+export * from './dev.js';
+export * from './lint.js';
+export * from './scan.js';
 export * from './search.js';
 export * from './info.js';
 export * from './login.js';
 export * from './logout.js';
 export * from './whoami.js';
 export * from './publish.js';
+export * from './cache.js';
@@ -1,19 +1,9 @@
 import { input, select, checkbox, confirm } from '@inquirer/prompts';
 import { SkillManager } from '../core/skill-manager.js';
+import { AVAILABLE_TOOLS } from '../schemas/skill.schema.js';
 import { logger } from '../ui/logger.js';
 import type { Scope } from '../utils/paths.js';
 
-const AVAILABLE_TOOLS = [
-  { name: 'Read - Read files', value: 'Read' },
-  { name: 'Write - Write files', value: 'Write' },
-  { name: 'Edit - Edit files', value: 'Edit' },
-  { name: 'Grep - Search file contents', value: 'Grep' },
-  { name: 'Glob - Find files by pattern', value: 'Glob' },
-  { name: 'Bash - Execute shell commands', value: 'Bash' },
-  { name: 'WebFetch - Fetch web content', value: 'WebFetch' },
-  { name: 'WebSearch - Search the web', value: 'WebSearch' },
-];
-
 export interface InitOptions {
   name?: string;
   global?: boolean;
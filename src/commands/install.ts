@@ -1,333 +1,385 @@
-import { confirm } from '@inquirer/prompts';
+import * as path from 'path';
+import { checkbox, confirm } from '@inquirer/prompts';
 import { SkillManager } from '../core/skill-manager.js';
-import { ApiClient, ApiError } from '../core/api-client.js';
+import { ApiError } from '../core/api-client.js';
 import { isLoggedIn } from '../core/config.js';
+import { gitHubWebHost } from '../core/github.js';
+import {
+  parseSkillSpecifier,
+  fetchSkills,
+  aliasSkill,
+  findLockedCommit,
+  type ParsedSource,
+  type ResolvedSkill,
+  type SkillSelector,
+} from '../core/sources.js';
 import { logger } from '../ui/logger.js';
-import { spinner } from '../ui/spinner.js';
+import { approvePermissionChanges } from '../ui/permissions.js';
+import { spinner, type Ora } from '../ui/spinner.js';
+import { mapConcurrent } from '../utils/concurrency.js';
 import type { Scope } from '../utils/paths.js';
-import type { SkillSource } from '../schemas/manifest.schema.js';
 
 export interface InstallOptions {
   global?: boolean;
   force?: boolean;
   yes?: boolean;
+  all?: boolean;
+  skill?: string; // Comma-separated skill names to pick from a multi-skill repository
+  as?: string; // Local name to install a single skill under
+  failFast?: boolean;
+  offline?: boolean;
+  skipValidation?: boolean;
+  skipScan?: boolean;
+  allowEscalation?: boolean;
 }
 
-interface ParsedSource {
-  type: 'github' | 'url' | 'local' | 'registry';
-  owner?: string;
-  repo?: string;
-  skillPath?: string;
-  ref?: string;
-  url?: string;
-  localPath?: string;
-  registryId?: string; // UUID or slug for registry
-}
-
-// UUID regex pattern
-const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Sources fetched at once when installing several specifiers
+const FETCH_CONCURRENCY = 4;
 
 /**
- * Parse skill specifier to determine source
- * Formats:
- * - github:owner/repo
- * - github:owner/repo@ref
- * - github:owner/repo/path/to/skill
- * - https://github.com/owner/repo
- * - ./local/path
- * - <uuid> (registry ID)
- * - <name> (registry search - single word)
+ * Pick skills from a multi-skill repository via --all, --skill or an interactive prompt
  */
-function parseSkillSpecifier(specifier: string): ParsedSource {
-  // GitHub shorthand: github:owner/repo[@ref][/path]
-  if (specifier.startsWith('github:')) {
-    const rest = specifier.slice(7);
-    const [ownerRepo, ...pathParts] = rest.split('/');
-    const [owner, repoWithRef] = ownerRepo.includes('/')
-      ? [ownerRepo.split('/')[0], ownerRepo.split('/').slice(1).join('/')]
-      : [ownerRepo, pathParts[0]];
-
-    let repo = repoWithRef || pathParts[0] || '';
-    let ref: string | undefined;
-
-    if (repo.includes('@')) {
-      [repo, ref] = repo.split('@');
+function createSkillSelector(options: InstallOptions, spin: Ora, label?: string): SkillSelector {
+  return async (candidates) => {
+    if (options.all) {
+      return candidates;
     }
 
-    const skillPath = pathParts.slice(1).join('/');
-
-    return {
-      type: 'github',
-      owner,
-      repo,
-      ref,
-      skillPath: skillPath || undefined,
-    };
-  }
+    if (options.skill) {
+      const wanted = options.skill.split(',').map((n) => n.trim()).filter(Boolean);
+      const missing = wanted.filter(
+        (n) => !candidates.some((c) => c.name === n || path.basename(c.path) === n)
+      );
+
+      if (missing.length > 0) {
+        throw new Error(
+          `Skill(s) not found in repository: ${missing.join(', ')}\n` +
+            `Available: ${candidates.map((c) => c.name).join(', ')}`
+        );
+      }
 
-  // GitHub URL
-  if (specifier.includes('github.com')) {
-    const url = new URL(specifier);
-    const parts = url.pathname.slice(1).split('/');
-    const owner = parts[0];
-    let repo = parts[1];
-    let ref: string | undefined;
-
-    // Handle .git suffix
-    if (repo?.endsWith('.git')) {
-      repo = repo.slice(0, -4);
+      return candidates.filter((c) => wanted.includes(c.name) || wanted.includes(path.basename(c.path)));
     }
 
-    // Handle tree/branch reference
-    if (parts[2] === 'tree' && parts[3]) {
-      ref = parts[3];
+    if (options.yes) {
+      throw new Error(
+        `Found ${candidates.length} skills: ${candidates.map((c) => c.name).join(', ')}\n` +
+          'Use --all or --skill <names> to choose which to install.'
+      );
     }
 
-    const skillPath = parts.slice(4).join('/');
-
-    return {
-      type: 'github',
-      owner,
-      repo,
-      ref,
-      skillPath: skillPath || undefined,
-    };
-  }
-
-  // Generic URL
-  if (specifier.startsWith('http://') || specifier.startsWith('https://')) {
-    return {
-      type: 'url',
-      url: specifier,
-    };
-  }
+    spin.stop();
 
-  // Local path
-  if (specifier.startsWith('./') || specifier.startsWith('/') || specifier.startsWith('../')) {
-    return {
-      type: 'local',
-      localPath: specifier,
-    };
-  }
+    const selected = await checkbox({
+      message: `Found ${candidates.length} skills${label ? ` in ${label}` : ''}. Select skills to install:`,
+      choices: candidates.map((c) => ({
+        name: `${c.name}${c.path ? ` (${c.path})` : ''}`,
+        value: c,
+        description: c.description,
+      })),
+      required: true,
+    });
 
-  // GitHub shorthand: owner/repo
-  if (specifier.includes('/')) {
-    const [owner, repoWithRef] = specifier.split('/');
-    let repo = repoWithRef;
-    let ref: string | undefined;
+    spin.start('Installing...');
+    return selected;
+  };
+}
 
-    if (repo?.includes('@')) {
-      [repo, ref] = repo.split('@');
+function describeError(error: unknown): string {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 401) {
+      return 'Authentication failed. Please run "outclaw login".';
+    }
+    if (error.statusCode === 404) {
+      return 'Skill not found in the registry.';
     }
-
-    return {
-      type: 'github',
-      owner,
-      repo,
-      ref,
-    };
   }
+  return error instanceof Error ? error.message : String(error);
+}
 
-  // UUID - registry ID
-  if (UUID_PATTERN.test(specifier)) {
-    return {
-      type: 'registry',
-      registryId: specifier,
-    };
+/**
+ * Exit unless logged in when any source comes from the registry.
+ * Offline installs read registry skills from the cache instead.
+ */
+async function requireRegistryLogin(sources: ParsedSource[], options: InstallOptions, spin: Ora): Promise<void> {
+  if (!options.offline && sources.some((s) => s.type === 'registry') && !(await isLoggedIn())) {
+    spin.fail('Authentication required');
+    logger.error('You must be logged in to install from the registry.');
+    logger.dim('Run "outclaw login" to authenticate.');
+    process.exit(1);
   }
-
-  // Single name - assume registry search/slug
-  return {
-    type: 'registry',
-    registryId: specifier,
-  };
 }
 
-async function fetchFromGitHub(source: ParsedSource): Promise<{ name: string; content: string }> {
-  const { owner, repo, ref = 'main', skillPath = '' } = source;
-
-  // Construct raw GitHub URL for SKILL.md
-  const basePath = skillPath ? `${skillPath}/` : '';
-  const skillMdUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${ref}/${basePath}SKILL.md`;
+/**
+ * Install fetched skills one at a time, asking before overwriting existing ones
+ */
+async function installFetched(
+  manager: SkillManager,
+  skills: ResolvedSkill[],
+  options: InstallOptions,
+  spin: Ora
+): Promise<Array<{ name: string; path: string }>> {
+  const installed: Array<{ name: string; path: string }> = [];
+
+  for (const skill of skills) {
+    const { name } = skill;
+    let force = options.force || false;
 
-  const response = await fetch(skillMdUrl);
+    // Check for existing skill
+    if (!force && (await manager.skillExists(name))) {
+      spin.stop();
+
+      if (!options.yes) {
+        const proceed = await confirm({
+          message: `Skill "${name}" already exists. Overwrite?`,
+          default: false,
+        });
+
+        if (!proceed) {
+          logger.info(`Skipped ${name}`);
+          continue;
+        }
+      }
 
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`SKILL.md not found at ${skillMdUrl}`);
+      force = true;
+      spin.start('Installing...');
     }
-    throw new Error(`Failed to fetch skill: ${response.statusText}`);
-  }
-
-  const content = await response.text();
-
-  // Extract name from frontmatter or use repo name
-  const nameMatch = content.match(/^name:\s*(.+)$/m);
-  const name = nameMatch ? nameMatch[1].trim() : repo!;
 
-  return { name, content };
-}
+    // Replacing a skill must not quietly widen what it can do
+    if (force && !(await approvePermissionChanges(name, await manager.diffPermissions(name, skill.files), options, spin))) {
+      logger.info(`Skipped ${name}`);
+      continue;
+    }
 
-async function fetchFromRegistry(
-  client: ApiClient,
-  registryId: string
-): Promise<{ name: string; content: string; workflowId: string }> {
-  // Check if it's a UUID or need to search
-  if (UUID_PATTERN.test(registryId)) {
-    // Direct ID - download
-    const content = await client.downloadWorkflow(registryId);
-    const workflow = await client.getWorkflow(registryId);
-
-    // Extract name from content frontmatter or use title
-    const nameMatch = content.match(/^name:\s*(.+)$/m);
-    const name = nameMatch ? nameMatch[1].trim() : workflow.title;
-
-    return { name, content, workflowId: registryId };
-  }
+    // Install
+    spin.text = `Installing ${name}...`;
 
-  // Search by name/slug
-  const results = await client.searchWorkflows(registryId, { limit: 5 });
+    const skillPath = await manager.installSkill(name, skill.files, {
+      force,
+      source: skill.source,
+      originalName: skill.originalName,
+      offline: options.offline,
+      skipValidation: options.skipValidation,
+      skipScan: options.skipScan,
+      onProgress: (message) => {
+        spin.text = message;
+      },
+      onWarning: (message) => {
+        spin.clear();
+        logger.warn(message);
+      },
+    });
 
-  if (results.workflows.length === 0) {
-    throw new Error(`No skill found matching "${registryId}" in the registry.`);
+    installed.push({ name, path: skillPath });
   }
 
-  // If exact match found, use it
-  const exactMatch = results.workflows.find(
-    (w) => w.title.toLowerCase() === registryId.toLowerCase() || w.slug === registryId
-  );
-
-  const workflow = exactMatch || results.workflows[0];
+  return installed;
+}
 
-  if (!exactMatch && results.workflows.length > 1) {
-    logger.warn(`Multiple skills found. Installing "${workflow.title}".`);
-    logger.dim('Use the workflow ID for exact match: outclaw install <uuid>');
+export async function installCommand(specifiers: string[], options: InstallOptions): Promise<void> {
+  if (specifiers.length > 1) {
+    if (options.as) {
+      logger.error('--as can only be used when installing a single skill.');
+      process.exit(1);
+    }
+    await installManyCommand(specifiers, options);
+    return;
   }
 
-  // Download the content
-  const content = await client.downloadWorkflow(workflow.id);
-
-  // Extract name from content frontmatter or use title
-  const nameMatch = content.match(/^name:\s*(.+)$/m);
-  const name = nameMatch ? nameMatch[1].trim() : workflow.title;
-
-  return { name, content, workflowId: workflow.id };
-}
-
-export async function installCommand(specifier: string, options: InstallOptions): Promise<void> {
+  const [specifier] = specifiers;
   const spin = spinner('Resolving skill...').start();
 
   try {
     // Parse specifier
-    const source = parseSkillSpecifier(specifier);
+    const source = parseSkillSpecifier(specifier, await gitHubWebHost());
+    const scope: Scope = options.global ? 'global' : 'project';
+    const manager = new SkillManager(scope);
 
-    if (source.type === 'local') {
-      spin.fail('Local installation not yet implemented');
-      process.exit(1);
+    // Registry installation requires login
+    await requireRegistryLogin([source], options, spin);
+
+    let skills = await fetchSkills(source, {
+      select: createSkillSelector(options, spin),
+      // Reinstalling a locked source reproduces the locked commit
+      lockedCommit: findLockedCommit(await manager.getManifest(), source),
+      offline: options.offline,
+      skipValidation: options.skipValidation,
+      onProgress: (message) => {
+        spin.text = message;
+      },
+      onWarning: (message) => {
+        logger.warn(message);
+      },
+    });
+
+    if (options.as) {
+      if (skills.length !== 1) {
+        throw new Error(`--as installs a single skill, but ${skills.length} were selected. Use --skill to pick one.`);
+      }
+      skills = [aliasSkill(skills[0], options.as)];
     }
 
-    if (source.type === 'url') {
-      spin.fail('URL installation not yet implemented');
-      process.exit(1);
+    spin.text = `Found ${skills.length === 1 ? `skill: ${skills[0].name}` : `${skills.length} skills`}`;
+
+    const installed = await installFetched(manager, skills, options, spin);
+
+    if (installed.length === 0) {
+      spin.stop();
+      logger.info('Installation cancelled');
+      return;
     }
 
-    let name: string;
-    let content: string;
-    let skillSource: SkillSource;
-
-    if (source.type === 'registry') {
-      // Registry installation requires login
-      if (!(await isLoggedIn())) {
-        spin.fail('Authentication required');
-        logger.error('You must be logged in to install from the registry.');
-        logger.dim('Run "outclaw login" to authenticate.');
-        process.exit(1);
-      }
+    if (installed.length === 1) {
+      const [{ name, path: skillPath }] = installed;
+      spin.succeed(`Installed ${name}`);
+      logger.info('');
+      logger.box(`Skill Installed: ${name}`, [
+        `Path:  ${skillPath}`,
+        `Scope: ${scope}`,
+        '',
+        `Use /${name} in OpenClaw to invoke this skill`,
+      ].join('\n'));
+      return;
+    }
 
-      spin.text = `Searching registry for "${source.registryId}"...`;
+    spin.succeed(`Installed ${installed.length} skills`);
+    logger.info('');
+    logger.box(`Skills Installed (${scope})`, installed.map((s) => `/${s.name}  ${s.path}`).join('\n'));
+  } catch (error) {
+    spin.fail('Installation failed');
+    logger.error(describeError(error));
+    process.exit(1);
+  }
+}
 
-      const client = await ApiClient.create();
-      const result = await fetchFromRegistry(client, source.registryId!);
+/**
+ * Install several specifiers: sources are fetched in parallel, then installed
+ * one at a time so lock file writes and prompts never interleave
+ */
+async function installManyCommand(specifiers: string[], options: InstallOptions): Promise<void> {
+  const spin = spinner(`Resolving ${specifiers.length} sources...`).start();
 
-      name = result.name;
-      content = result.content;
-      skillSource = {
-        type: 'registry',
-        id: result.workflowId,
-      };
+  const installed: Array<{ name: string; path: string }> = [];
+  const failures: Array<{ specifier: string; message: string }> = [];
 
-      spin.text = `Found skill: ${name}`;
-    } else {
-      // GitHub installation
-      spin.text = `Fetching from GitHub: ${source.owner}/${source.repo}...`;
-      const result = await fetchFromGitHub(source);
-
-      name = result.name;
-      content = result.content;
-      skillSource = {
-        type: 'github',
-        url: `https://github.com/${source.owner}/${source.repo}`,
-        ref: source.ref,
-      };
-
-      spin.text = `Found skill: ${name}`;
+  // Clear the spinner line to print above it without garbling it
+  const report = (print: () => void) => {
+    if (!spin.isSpinning) {
+      print();
+      return;
     }
+    spin.clear();
+    print();
+    spin.render();
+  };
 
-    // Check for existing skill
+  try {
     const scope: Scope = options.global ? 'global' : 'project';
     const manager = new SkillManager(scope);
 
-    if (await manager.skillExists(name)) {
-      if (!options.force) {
-        spin.stop();
+    const gitHubHost = await gitHubWebHost();
+    const sources = specifiers.map((specifier) => {
+      try {
+        return parseSkillSpecifier(specifier, gitHubHost);
+      } catch (error) {
+        failures.push({ specifier, message: describeError(error) });
+        return null;
+      }
+    });
+
+    await requireRegistryLogin(sources.filter((s): s is ParsedSource => s !== null), options, spin);
+
+    const manifest = await manager.getManifest();
+    const active = new Set<string>();
+    let done = 0;
+
+    const updateProgress = () => {
+      spin.text = `Fetching ${done}/${specifiers.length}: ${[...active].join(', ')}`;
+    };
 
-        if (!options.yes) {
-          const proceed = await confirm({
-            message: `Skill "${name}" already exists. Overwrite?`,
-            default: false,
+    // Interactive skill pickers run one at a time
+    let prompts: Promise<unknown> = Promise.resolve();
+
+    const fetched = await mapConcurrent(
+      specifiers,
+      FETCH_CONCURRENCY,
+      async (specifier, index) => {
+        const source = sources[index];
+        if (!source) return null;
+
+        const select = createSkillSelector(options, spin, specifier);
+        active.add(specifier);
+        updateProgress();
+
+        try {
+          const skills = await fetchSkills(source, {
+            select: (candidates) => {
+              const picked = prompts.then(() => select(candidates));
+              prompts = picked.catch(() => undefined);
+              return picked;
+            },
+            lockedCommit: findLockedCommit(manifest, source),
+            offline: options.offline,
+            skipValidation: options.skipValidation,
+            onWarning: (message) => {
+              report(() => logger.warn(`${specifier}: ${message}`));
+            },
           });
 
-          if (!proceed) {
-            logger.info('Installation cancelled');
-            return;
-          }
+          report(() => logger.success(`Fetched ${specifier} (${skills.map((s) => s.name).join(', ')})`));
+          return skills;
+        } catch (error) {
+          const message = describeError(error);
+          failures.push({ specifier, message });
+          report(() => logger.error(`${specifier}: ${message}`));
+          return null;
+        } finally {
+          active.delete(specifier);
+          done++;
+          updateProgress();
+        }
+      },
+      () => Boolean(options.failFast) && failures.length > 0
+    );
+
+    // With --fail-fast nothing is installed once any source has failed
+    if (!options.failFast || failures.length === 0) {
+      for (const [index, skills] of fetched.entries()) {
+        if (!skills) continue;
+
+        try {
+          installed.push(...(await installFetched(manager, skills, options, spin)));
+        } catch (error) {
+          const message = describeError(error);
+          failures.push({ specifier: specifiers[index], message });
+          if (options.failFast) break;
         }
-
-        spin.start('Installing...');
       }
     }
 
-    // Install
-    spin.text = `Installing ${name}...`;
-
-    const skillPath = await manager.installSkill(name, content, {
-      force: options.force || false,
-      source: skillSource,
-    });
+    if (failures.length === 0) {
+      spin.succeed(`Installed ${installed.length} skill(s) from ${specifiers.length} sources`);
+    } else if (options.failFast) {
+      spin.fail('Installation aborted');
+    } else {
+      spin.warn(`Installed ${installed.length} skill(s), ${failures.length} of ${specifiers.length} sources failed`);
+    }
 
-    spin.succeed(`Installed ${name}`);
-    logger.info('');
-    logger.box(`Skill Installed: ${name}`, [
-      `Path:  ${skillPath}`,
-      `Scope: ${scope}`,
-      '',
-      `Use /${name} in OpenClaw to invoke this skill`,
-    ].join('\n'));
-  } catch (error) {
-    spin.fail('Installation failed');
+    if (installed.length > 0) {
+      logger.info('');
+      logger.box(`Skills Installed (${scope})`, installed.map((s) => `/${s.name}  ${s.path}`).join('\n'));
+    }
 
-    if (error instanceof ApiError) {
-      if (error.statusCode === 401) {
-        logger.error('Authentication failed. Please run "outclaw login".');
-      } else if (error.statusCode === 404) {
-        logger.error('Skill not found in the registry.');
-      } else {
-        logger.error(error.message);
+    if (failures.length > 0) {
+      logger.info('');
+      for (const { specifier, message } of failures) {
+        logger.error(`${specifier}: ${message}`);
       }
-    } else if (error instanceof Error) {
-      logger.error(error.message);
+      process.exit(1);
     }
-
+  } catch (error) {
+    spin.fail('Installation failed');
+    logger.error(describeError(error));
     process.exit(1);
   }
 }
@@ -0,0 +1,57 @@
+import { SkillManager } from '../core/skill-manager.js';
+import { logger } from '../ui/logger.js';
+import type { Scope } from '../utils/paths.js';
+
+export interface LinkOptions {
+  global?: boolean;
+  force?: boolean;
+}
+
+export interface UnlinkOptions {
+  global?: boolean;
+}
+
+export async function linkCommand(dir: string, options: LinkOptions): Promise<void> {
+  try {
+    const scope: Scope = options.global ? 'global' : 'project';
+    const manager = new SkillManager(scope);
+
+    const { name, path: skillPath } = await manager.linkSkill(dir, { force: options.force });
+
+    logger.success(`Linked ${name}`);
+    logger.info('');
+    logger.box(`Skill Linked: ${name}`, [
+      `Path:   ${skillPath}`,
+      `Target: ${(await manager.getLinkTarget(name)) ?? dir}`,
+      `Scope:  ${scope}`,
+      '',
+      'Edits to the target show up without reinstalling.',
+      `Run "outclaw unlink ${name}${options.global ? ' --global' : ''}" to remove the link.`,
+    ].join('\n'));
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
+
+export async function unlinkCommand(name: string, options: UnlinkOptions): Promise<void> {
+  try {
+    const scope: Scope = options.global ? 'global' : 'project';
+    const manager = new SkillManager(scope);
+
+    await manager.unlinkSkill(name);
+
+    logger.success(`Unlinked ${name}`);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,115 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { ZodError } from 'zod';
+import { lintSkill, loadLintConfig, type LintDiagnostic } from '../core/lint.js';
+import { discoverSkills, formatValidationErrors } from '../parsers/skill-parser.js';
+import { logger } from '../ui/logger.js';
+import { pathExists } from '../utils/paths.js';
+
+export interface LintCommandOptions {
+  fix?: boolean;
+  json?: boolean;
+}
+
+interface SkillLintResult {
+  path: string;
+  diagnostics: LintDiagnostic[];
+  fixed: number;
+}
+
+/**
+ * Expand each path to the skill directories it holds: the path itself when it
+ * has a SKILL.md, otherwise every skill found below it
+ */
+async function findSkillDirs(paths: string[]): Promise<string[]> {
+  const dirs: string[] = [];
+
+  for (const input of paths) {
+    const root = path.resolve(input);
+
+    if (!(await pathExists(root))) {
+      throw new Error(`Path not found: ${input}`);
+    }
+
+    if (await pathExists(path.join(root, 'SKILL.md'))) {
+      dirs.push(root);
+      continue;
+    }
+
+    const skills = await discoverSkills(root);
+    if (skills.length === 0) {
+      throw new Error(`No SKILL.md found in ${input}`);
+    }
+
+    dirs.push(...skills.map((s) => path.join(root, s.path)));
+  }
+
+  return [...new Set(dirs)];
+}
+
+export async function lintCommand(paths: string[], options: LintCommandOptions): Promise<void> {
+  try {
+    const config = await loadLintConfig();
+    const results: SkillLintResult[] = [];
+
+    for (const dir of await findSkillDirs(paths.length > 0 ? paths : ['.'])) {
+      const { diagnostics, fixed } = await lintSkill(dir, { config, fix: options.fix });
+      results.push({ path: dir, diagnostics, fixed });
+    }
+
+    const diagnostics = results.flatMap((r) => r.diagnostics);
+    const errors = diagnostics.filter((d) => d.severity === 'error').length;
+    const warnings = diagnostics.length - errors;
+    const fixed = results.reduce((sum, r) => sum + r.fixed, 0);
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      for (const result of results) {
+        for (const d of result.diagnostics) {
+          const location = `${path.relative(process.cwd(), path.join(result.path, d.file)) || d.file}:${d.line}`;
+          const line = `${location}  ${d.message} ${chalk.dim(`(${d.rule})`)}`;
+          if (d.severity === 'error') {
+            logger.error(line);
+          } else {
+            logger.warn(line);
+          }
+        }
+      }
+
+      if (diagnostics.length > 0) {
+        logger.info('');
+      }
+      if (fixed > 0) {
+        logger.success(`Fixed ${fixed} problem(s)`);
+      }
+
+      if (diagnostics.length === 0) {
+        logger.success(`${results.length} skill(s) passed lint`);
+      } else {
+        logger.info(`${errors} error(s), ${warnings} warning(s) in ${results.length} skill(s)`);
+
+        const fixable = diagnostics.filter((d) => d.fixable).length;
+        if (fixable > 0) {
+          logger.dim(`${fixable} problem(s) can be fixed with "outclaw lint --fix".`);
+        }
+      }
+    }
+
+    if (errors > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      logger.error('Invalid .outclaw/lint.json:');
+      for (const line of formatValidationErrors(error)) {
+        logger.dim(`  ${line}`);
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -1,3 +1,4 @@
+import chalk from 'chalk';
 import { SkillManager, type SkillInfo } from '../core/skill-manager.js';
 import { logger } from '../ui/logger.js';
 import { renderTable } from '../ui/table.js';
@@ -47,12 +48,16 @@ export async function listCommand(options: ListOptions): Promise<void> {
     renderTable({
       headers: ['Name', 'Version', 'Scope', 'Description'],
       rows: allSkills.map((s) => [
-        s.name,
+        s.linkTarget ? `${s.name} ${chalk.cyan('(linked)')}` : s.name,
         s.version || '-',
         s.scope,
         s.description.length > 50 ? s.description.slice(0, 47) + '...' : s.description,
       ]),
     });
+
+    for (const skill of allSkills.filter((s) => s.linkTarget)) {
+      logger.dim(`${skill.name} -> ${skill.linkTarget}`);
+    }
   } catch (error) {
     if (error instanceof Error) {
       logger.error(error.message);
@@ -0,0 +1,101 @@
+import chalk from 'chalk';
+import { SkillManager } from '../core/skill-manager.js';
+import { checkForUpdate, type UpdateCheck } from '../core/updates.js';
+import { logger } from '../ui/logger.js';
+import { spinner } from '../ui/spinner.js';
+import { renderTable } from '../ui/table.js';
+import type { Scope } from '../utils/paths.js';
+
+export interface OutdatedOptions {
+  global?: boolean;
+  project?: boolean;
+  json?: boolean;
+}
+
+export async function outdatedCommand(options: OutdatedOptions): Promise<void> {
+  const spin = spinner('Checking for updates...').start();
+
+  try {
+    const scopes: Scope[] = [];
+
+    if (options.global) {
+      scopes.push('global');
+    } else if (options.project) {
+      scopes.push('project');
+    } else {
+      scopes.push('global', 'project');
+    }
+
+    const checks: UpdateCheck[] = [];
+
+    for (const scope of scopes) {
+      const manager = new SkillManager(scope);
+      const manifest = await manager.getManifest();
+
+      for (const entry of manifest.skills) {
+        spin.text = `Checking ${entry.name}...`;
+        const installed = await manager.getSkill(entry.name);
+
+        try {
+          checks.push(await checkForUpdate(entry, installed?.version));
+        } catch (error) {
+          checks.push({
+            name: entry.name,
+            scope,
+            source: entry.source.type,
+            current: '-',
+            latest: '-',
+            status: 'unknown',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    spin.stop();
+
+    if (options.json) {
+      console.log(JSON.stringify(checks, null, 2));
+      return;
+    }
+
+    if (checks.length === 0) {
+      logger.info('No skills installed from a tracked source.');
+      return;
+    }
+
+    const outdated = checks.filter((c) => c.status === 'outdated');
+
+    if (outdated.length === 0) {
+      logger.success('All skills are up to date.');
+    } else {
+      logger.info(`${outdated.length} skill(s) can be updated:\n`);
+
+      renderTable({
+        headers: ['Name', 'Current', 'Latest', 'Scope', 'Source'],
+        rows: outdated.map((c) => [c.name, c.current, chalk.green(c.latest), c.scope, c.source]),
+      });
+
+      logger.info('');
+      logger.dim('Update with: outclaw update [name]');
+    }
+
+    for (const check of checks.filter((c) => c.error)) {
+      logger.warn(`Could not check ${check.name}: ${check.error}`);
+    }
+
+    const untracked = checks.filter((c) => c.status === 'unknown' && !c.error);
+    if (untracked.length > 0) {
+      logger.dim(`${untracked.length} skill(s) from url or local sources have no version to compare.`);
+    }
+  } catch (error) {
+    spin.fail('Failed to check for updates');
+
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
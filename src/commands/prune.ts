@@ -0,0 +1,128 @@
+import chalk from 'chalk';
+import { ZodError } from 'zod';
+import { confirm } from '@inquirer/prompts';
+import { SkillManager } from '../core/skill-manager.js';
+import { findDrift, type DriftItem, type DriftKind } from '../core/prune.js';
+import { formatValidationErrors } from '../parsers/skill-parser.js';
+import { logger } from '../ui/logger.js';
+import { renderTable } from '../ui/table.js';
+import type { Scope } from '../utils/paths.js';
+
+export interface PruneOptions {
+  global?: boolean;
+  project?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+  yes?: boolean;
+}
+
+interface PruneResult extends DriftItem {
+  pruned: boolean;
+}
+
+const KIND_LABELS: Record<DriftKind, string> = {
+  orphaned: chalk.yellow('lock entry without directory'),
+  unmanaged: chalk.yellow('directory without lock entry'),
+};
+
+/**
+ * Ask before deleting unmanaged directories. JSON output never prompts, so
+ * there they are only deleted with --yes.
+ */
+async function confirmDelete(unmanaged: DriftItem[], options: PruneOptions): Promise<boolean> {
+  if (options.yes) return true;
+  if (options.json) return false;
+
+  return await confirm({
+    message: `Delete ${unmanaged.length} unmanaged skill director${unmanaged.length === 1 ? 'y' : 'ies'}? This cannot be undone.`,
+    default: false,
+  });
+}
+
+export async function pruneCommand(options: PruneOptions): Promise<void> {
+  try {
+    const scopes: Scope[] = [];
+
+    if (options.global) {
+      scopes.push('global');
+    } else if (options.project) {
+      scopes.push('project');
+    } else {
+      scopes.push('global', 'project');
+    }
+
+    const results: PruneResult[] = [];
+    for (const scope of scopes) {
+      results.push(...(await findDrift(scope)).map((item) => ({ ...item, pruned: false })));
+    }
+
+    if (!options.json) {
+      if (results.length === 0) {
+        logger.success('Skills directories match the lock file.');
+        return;
+      }
+
+      renderTable({
+        headers: ['Name', 'Scope', 'Problem', 'Path'],
+        rows: results.map((r) => [r.name, r.scope, KIND_LABELS[r.kind], r.path]),
+      });
+      logger.info('');
+    }
+
+    if (options.dryRun) {
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        logger.dim('Dry run: nothing was changed.');
+      }
+      return;
+    }
+
+    // Lock entries for skills that are gone are always dropped
+    for (const scope of scopes) {
+      const orphaned = results.filter((r) => r.scope === scope && r.kind === 'orphaned');
+      if (orphaned.length === 0) continue;
+
+      await new SkillManager(scope).removeFromManifest(...orphaned.map((r) => r.name));
+      for (const result of orphaned) result.pruned = true;
+    }
+
+    const unmanaged = results.filter((r) => r.kind === 'unmanaged');
+    if (unmanaged.length > 0 && (await confirmDelete(unmanaged, options))) {
+      for (const result of unmanaged) {
+        await new SkillManager(result.scope).uninstallSkill(result.name);
+        result.pruned = true;
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    const removedEntries = results.filter((r) => r.kind === 'orphaned' && r.pruned).length;
+    const deletedDirs = unmanaged.filter((r) => r.pruned).length;
+
+    if (removedEntries > 0) {
+      logger.success(`Removed ${removedEntries} orphaned lock entr${removedEntries === 1 ? 'y' : 'ies'}`);
+    }
+    if (deletedDirs > 0) {
+      logger.success(`Deleted ${deletedDirs} unmanaged skill director${deletedDirs === 1 ? 'y' : 'ies'}`);
+    } else if (unmanaged.length > 0) {
+      logger.info('Kept unmanaged skill directories.');
+      logger.dim('Track one with "outclaw install <path> --force" or delete it with "outclaw prune --yes".');
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      logger.error('Invalid lock file:');
+      for (const line of formatValidationErrors(error)) {
+        logger.dim(`  ${line}`);
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -0,0 +1,75 @@
+import * as path from 'path';
+import { scanSkillFiles, type LocalSecurityScan } from '../core/security.js';
+import { discoverSkills } from '../parsers/skill-parser.js';
+import { logger } from '../ui/logger.js';
+import { readSkillFiles } from '../utils/files.js';
+import { pathExists } from '../utils/paths.js';
+
+export interface ScanOptions {
+  json?: boolean;
+}
+
+interface ScanResult {
+  path: string;
+  security_scan: LocalSecurityScan;
+}
+
+export async function scanCommand(dir: string, options: ScanOptions): Promise<void> {
+  try {
+    const root = path.resolve(dir);
+
+    if (!(await pathExists(root))) {
+      throw new Error(`Path not found: ${dir}`);
+    }
+
+    // A single skill, or every skill in a repository checkout
+    const skillDirs = (await pathExists(path.join(root, 'SKILL.md')))
+      ? [root]
+      : (await discoverSkills(root)).map((s) => path.join(root, s.path));
+
+    if (skillDirs.length === 0) {
+      throw new Error(`No SKILL.md found in ${dir}`);
+    }
+
+    const results: ScanResult[] = [];
+    for (const skillDir of skillDirs) {
+      results.push({ path: skillDir, security_scan: scanSkillFiles(await readSkillFiles(skillDir)) });
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      for (const { path: skillDir, security_scan: scan } of results) {
+        const label = path.relative(process.cwd(), skillDir) || '.';
+
+        if (scan.findings.length === 0) {
+          logger.success(`${label}: ${scan.explanation}`);
+          continue;
+        }
+
+        if (scan.passed) {
+          logger.warn(`${label}: ${scan.explanation}`);
+        } else {
+          logger.error(`${label}: ${scan.explanation}`);
+        }
+
+        logger.warn('Risk factors:');
+        for (const finding of scan.findings) {
+          logger.dim(`  - [${finding.severity}] ${finding.file}:${finding.line} ${finding.message} (${finding.rule})`);
+        }
+        logger.info('');
+      }
+    }
+
+    if (results.some((r) => !r.security_scan.passed)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -22,10 +22,18 @@ export async function uninstallCommand(name: string, options: UninstallOptions):
       process.exit(1);
     }
 
+    // Warn before breaking skills that depend on this one
+    const dependents = await manager.getDependents(name);
+    if (dependents.length > 0) {
+      logger.warn(`"${name}" is required by: ${dependents.join(', ')}`);
+    }
+
     // Confirm uninstall
     if (!options.yes) {
       const proceed = await confirm({
-        message: `Are you sure you want to uninstall "${name}"?`,
+        message: dependents.length > 0
+          ? `Uninstall "${name}" anyway? ${dependents.join(', ')} may stop working.`
+          : `Are you sure you want to uninstall "${name}"?`,
         default: false,
       });
 
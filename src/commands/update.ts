@@ -0,0 +1,184 @@
+import { SkillManager } from '../core/skill-manager.js';
+import { ApiError } from '../core/api-client.js';
+import { isLoggedIn } from '../core/config.js';
+import { fetchSkills, parseLockedSource, aliasSkill } from '../core/sources.js';
+import { checkForUpdate } from '../core/updates.js';
+import type { SkillManifest } from '../schemas/manifest.schema.js';
+import { logger } from '../ui/logger.js';
+import { approvePermissionChanges } from '../ui/permissions.js';
+import { spinner, type Ora } from '../ui/spinner.js';
+import { renderTable } from '../ui/table.js';
+import type { Scope } from '../utils/paths.js';
+
+export interface UpdateOptions {
+  global?: boolean;
+  project?: boolean;
+  json?: boolean;
+  skipValidation?: boolean;
+  skipScan?: boolean;
+  allowEscalation?: boolean;
+}
+
+interface UpdateResult {
+  name: string;
+  scope: Scope;
+  from: string;
+  to: string;
+  status: 'updated' | 'up-to-date' | 'skipped' | 'failed';
+  error?: string;
+}
+
+/**
+ * Refetch a lock entry from its source at the latest matching ref or version.
+ * Returns null when the user declines the new version's permissions.
+ */
+async function updateEntry(
+  manager: SkillManager,
+  entry: SkillManifest,
+  options: UpdateOptions,
+  spin: Ora
+): Promise<SkillManifest['source'] | null> {
+  // Aliased skills are looked up by the name declared at the source
+  const sourceName = entry.originalName ?? entry.name;
+
+  const skills = await fetchSkills(parseLockedSource(entry.source), {
+    select: async (candidates) => candidates.filter((c) => c.name === sourceName),
+    skipValidation: options.skipValidation,
+  });
+
+  const fetched = skills.find((s) => s.name === sourceName);
+  if (!fetched) {
+    throw new Error(`"${sourceName}" is no longer found at its source`);
+  }
+  const skill = entry.originalName ? aliasSkill(fetched, entry.name) : fetched;
+
+  if (!(await approvePermissionChanges(entry.name, await manager.diffPermissions(entry.name, skill.files), options, spin))) {
+    return null;
+  }
+
+  await manager.installSkill(entry.name, skill.files, {
+    force: true,
+    source: skill.source,
+    originalName: skill.originalName,
+    skipValidation: options.skipValidation,
+    skipScan: options.skipScan,
+  });
+
+  return skill.source;
+}
+
+export async function updateCommand(name: string | undefined, options: UpdateOptions): Promise<void> {
+  const spin = spinner('Checking for updates...').start();
+
+  try {
+    const scopes: Scope[] = [];
+
+    if (options.global) {
+      scopes.push('global');
+    } else if (options.project) {
+      scopes.push('project');
+    } else {
+      scopes.push('global', 'project');
+    }
+
+    const results: UpdateResult[] = [];
+
+    for (const scope of scopes) {
+      const manager = new SkillManager(scope);
+      const manifest = await manager.getManifest();
+      const entries = manifest.skills.filter((s) => !name || s.name === name);
+
+      for (const entry of entries) {
+        // Linked skills already are their working copy
+        if (entry.source.linked) {
+          results.push({ name: entry.name, scope, from: 'linked', to: 'linked', status: 'up-to-date' });
+          continue;
+        }
+
+        spin.text = `Checking ${entry.name}...`;
+
+        try {
+          if (entry.source.type === 'registry' && !(await isLoggedIn())) {
+            throw new Error('You must be logged in to update skills from the registry.');
+          }
+
+          const installed = await manager.getSkill(entry.name);
+          const check = await checkForUpdate(entry, installed?.version);
+
+          // URL and local sources have no version to compare, so they are always refreshed
+          if (check.status === 'up-to-date') {
+            results.push({ name: entry.name, scope, from: check.current, to: check.latest, status: 'up-to-date' });
+            continue;
+          }
+
+          spin.text = `Updating ${entry.name}...`;
+          const status = (await updateEntry(manager, entry, options, spin)) ? 'updated' : 'skipped';
+
+          results.push({ name: entry.name, scope, from: check.current, to: check.latest, status });
+        } catch (error) {
+          let message = error instanceof Error ? error.message : String(error);
+          if (error instanceof ApiError && error.statusCode === 401) {
+            message = 'Authentication failed. Please run "outclaw login".';
+          }
+          results.push({ name: entry.name, scope, from: '-', to: '-', status: 'failed', error: message });
+        }
+      }
+    }
+
+    spin.stop();
+
+    if (name && results.length === 0) {
+      logger.error(`Skill "${name}" is not in the lock file`);
+      logger.dim('Only skills installed with "outclaw install" can be updated.');
+      process.exit(1);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else if (results.length === 0) {
+      logger.info('No skills installed from a tracked source.');
+    } else {
+      const updated = results.filter((r) => r.status === 'updated');
+      const skipped = results.filter((r) => r.status === 'skipped');
+      const failed = results.filter((r) => r.status === 'failed');
+
+      if (updated.length > 0) {
+        logger.success(`Updated ${updated.length} skill(s):\n`);
+        renderTable({
+          headers: ['Name', 'From', 'To', 'Scope'],
+          rows: updated.map((r) => [r.name, r.from, r.to, r.scope]),
+        });
+      } else if (skipped.length === 0 && failed.length === 0) {
+        logger.success('All skills are up to date.');
+      }
+
+      for (const result of skipped) {
+        logger.warn(`Skipped ${result.name}: new permissions were not accepted`);
+      }
+
+      for (const result of failed) {
+        logger.error(`Failed to update ${result.name}: ${result.error}`);
+      }
+
+      if (skipped.length > 0 || failed.length > 0) {
+        const upToDate = results.length - updated.length - skipped.length - failed.length;
+        logger.warn(
+          `${updated.length} updated, ${upToDate} up to date, ${skipped.length} skipped, ${failed.length} failed.`
+        );
+      }
+    }
+
+    if (results.some((r) => r.status === 'failed')) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spin.fail('Update failed');
+
+    if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
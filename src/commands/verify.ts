@@ -0,0 +1,96 @@
+import chalk from 'chalk';
+import { ZodError } from 'zod';
+import { verifyScope, type VerifyResult, type VerifyStatus } from '../core/verify.js';
+import { formatValidationErrors } from '../parsers/skill-parser.js';
+import { logger } from '../ui/logger.js';
+import { renderTable } from '../ui/table.js';
+import type { Scope } from '../utils/paths.js';
+
+export interface VerifyOptions {
+  global?: boolean;
+  project?: boolean;
+  json?: boolean;
+}
+
+const STATUS_LABELS: Record<VerifyStatus, string> = {
+  ok: chalk.green('ok'),
+  modified: chalk.red('modified'),
+  missing: chalk.red('missing'),
+  unmanaged: chalk.yellow('no lock entry'),
+  unverified: chalk.dim('no hash recorded'),
+  linked: chalk.cyan('linked'),
+};
+
+const FAILING_STATUSES: VerifyStatus[] = ['modified', 'missing', 'unmanaged'];
+
+function describe(result: VerifyResult): string {
+  const parts: string[] = [];
+  if (result.modified.length) parts.push(`${result.modified.length} modified`);
+  if (result.added.length) parts.push(`${result.added.length} added`);
+  if (result.removed.length) parts.push(`${result.removed.length} removed`);
+  return parts.join(', ');
+}
+
+export async function verifyCommand(options: VerifyOptions): Promise<void> {
+  try {
+    const scopes: Scope[] = [];
+
+    if (options.global) {
+      scopes.push('global');
+    } else if (options.project) {
+      scopes.push('project');
+    } else {
+      scopes.push('global', 'project');
+    }
+
+    const results: VerifyResult[] = [];
+    for (const scope of scopes) {
+      results.push(...(await verifyScope(scope)));
+    }
+
+    const failures = results.filter((r) => FAILING_STATUSES.includes(r.status));
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+    } else if (results.length === 0) {
+      logger.info('No skills installed.');
+    } else {
+      renderTable({
+        headers: ['Name', 'Scope', 'Status', 'Files'],
+        rows: results.map((r) => [r.name, r.scope, STATUS_LABELS[r.status], describe(r)]),
+      });
+
+      for (const result of results.filter((r) => r.status === 'modified')) {
+        logger.info('');
+        logger.info(chalk.bold(`${result.name} (${result.scope})`));
+        for (const file of result.modified) logger.info(chalk.yellow(`  M ${file}`));
+        for (const file of result.added) logger.info(chalk.green(`  A ${file}`));
+        for (const file of result.removed) logger.info(chalk.red(`  D ${file}`));
+      }
+
+      logger.info('');
+      if (failures.length === 0) {
+        logger.success('All installed skills match the lock file.');
+      } else {
+        logger.error(`${failures.length} skill(s) do not match the lock file.`);
+        logger.dim('Reinstall with "outclaw install --force <source>" or restore with "outclaw ci".');
+      }
+    }
+
+    if (failures.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      logger.error('Invalid lock file:');
+      for (const line of formatValidationErrors(error)) {
+        logger.dim(`  ${line}`);
+      }
+    } else if (error instanceof Error) {
+      logger.error(error.message);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(1);
+  }
+}
@@ -68,15 +68,17 @@ export interface PublishWorkflowRequest {
   example_output?: string;
 }
 
+export interface SecurityScan {
+  passed: boolean;
+  risk_factors: string[];
+  explanation: string;
+}
+
 export interface PublishWorkflowResponse {
   id: string;
   status: 'published' | 'rejected';
   message: string;
-  security_scan?: {
-    passed: boolean;
-    risk_factors: string[];
-    explanation: string;
-  };
+  security_scan?: SecurityScan;
 }
 
 export class ApiError extends Error {
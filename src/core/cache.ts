@@ -0,0 +1,248 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { getCachePath, ensureDir } from '../utils/paths.js';
+
+/**
+ * Download cache shared by every project. Artifacts (repository tarballs,
+ * ClawHub zips, registry SKILL.md files, URL downloads) are stored once under
+ * their sha256 digest in blobs/, and index.json maps source keys such as
+ * "github:owner/repo@<sha>" to digests. Refs map a mutable request such as a
+ * branch or "latest" to the key it last resolved to, for offline installs.
+ */
+
+export interface CacheEntry {
+  digest: string; // sha256 hex of the artifact
+  size: number;
+  storedAt: string;
+}
+
+interface CacheIndex {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+  refs: Record<string, string>; // Mutable request to the key it last resolved to
+}
+
+export interface CachedArtifact extends CacheEntry {
+  key: string;
+}
+
+export type CacheVerifyStatus = 'ok' | 'corrupt' | 'missing';
+
+export interface CacheVerifyResult extends CachedArtifact {
+  status: CacheVerifyStatus;
+}
+
+export interface CachedOptions {
+  offline?: boolean;
+  refresh?: boolean; // Download even when cached, for artifacts that can change upstream
+}
+
+const INDEX_FILE = 'index.json';
+
+// Index updates from parallel fetches in this process are applied one at a time
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+function getBlobPath(digest: string): string {
+  return path.join(getCachePath(), 'blobs', digest.slice(0, 2), digest);
+}
+
+function digestOf(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Check whether an intact blob for a digest is already stored
+ */
+async function hasBlob(digest: string): Promise<boolean> {
+  try {
+    return digestOf(await fs.readFile(getBlobPath(digest))) === digest;
+  } catch {
+    return false;
+  }
+}
+
+async function readIndex(): Promise<CacheIndex> {
+  const indexPath = path.join(getCachePath(), INDEX_FILE);
+
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as CacheIndex;
+    return { version: 1, entries: index.entries ?? {}, refs: index.refs ?? {} };
+  } catch {
+    return { version: 1, entries: {}, refs: {} };
+  }
+}
+
+async function writeIndex(index: CacheIndex): Promise<void> {
+  const cachePath = getCachePath();
+  await ensureDir(cachePath);
+
+  // Write then rename so a concurrent reader never sees a partial index
+  const tempPath = path.join(cachePath, `${INDEX_FILE}.${process.pid}.tmp`);
+  await fs.writeFile(tempPath, JSON.stringify(index, null, 2), 'utf-8');
+  await fs.rename(tempPath, path.join(cachePath, INDEX_FILE));
+}
+
+function updateIndex(update: (index: CacheIndex) => void): Promise<void> {
+  const run = indexQueue.then(async () => {
+    const index = await readIndex();
+    update(index);
+    await writeIndex(index);
+  });
+  indexQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read a cached artifact, or null when it is missing or fails its digest check
+ */
+export async function readCache(key: string): Promise<Buffer | null> {
+  const entry = (await readIndex()).entries[key];
+  if (!entry) {
+    return null;
+  }
+
+  try {
+    const data = await fs.readFile(getBlobPath(entry.digest));
+    return digestOf(data) === entry.digest ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store an artifact under a key. Identical content is stored once.
+ */
+export async function writeCache(key: string, data: Buffer): Promise<string> {
+  const digest = digestOf(data);
+  const blobPath = getBlobPath(digest);
+
+  // A missing or corrupt blob is (re)written; each write gets its own temp
+  // file since parallel fetches can store the same content at once
+  if (!(await hasBlob(digest))) {
+    await ensureDir(path.dirname(blobPath));
+    const tempPath = `${blobPath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, blobPath);
+  }
+
+  await updateIndex((index) => {
+    index.entries[key] = { digest, size: data.length, storedAt: new Date().toISOString() };
+  });
+
+  return digest;
+}
+
+/**
+ * Return a cached artifact or download and cache it. Offline, a missing
+ * artifact is an error; with `refresh` the cache is only used offline.
+ */
+export async function cached(
+  key: string,
+  download: () => Promise<Buffer>,
+  options: CachedOptions = {}
+): Promise<Buffer> {
+  if (options.offline || !options.refresh) {
+    const hit = await readCache(key);
+    if (hit) {
+      return hit;
+    }
+  }
+
+  if (options.offline) {
+    throw new Error(`${key} is not in the download cache (offline).`);
+  }
+
+  const data = await download();
+  await writeCache(key, data);
+  return data;
+}
+
+/**
+ * Remember the key a mutable request (branch, tag, latest version) last resolved to
+ */
+export async function writeCacheRef(ref: string, key: string): Promise<void> {
+  await updateIndex((index) => {
+    index.refs[ref] = key;
+  });
+}
+
+/**
+ * Look up the key a mutable request last resolved to
+ */
+export async function readCacheRef(ref: string): Promise<string | undefined> {
+  return (await readIndex()).refs[ref];
+}
+
+/**
+ * List cached artifacts by key
+ */
+export async function listCache(): Promise<CachedArtifact[]> {
+  const index = await readIndex();
+  return Object.entries(index.entries)
+    .map(([key, entry]) => ({ key, ...entry }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Re-hash every cached artifact against its digest
+ */
+export async function verifyCache(): Promise<CacheVerifyResult[]> {
+  const results: CacheVerifyResult[] = [];
+
+  for (const artifact of await listCache()) {
+    let status: CacheVerifyStatus;
+    try {
+      const data = await fs.readFile(getBlobPath(artifact.digest));
+      status = digestOf(data) === artifact.digest ? 'ok' : 'corrupt';
+    } catch {
+      status = 'missing';
+    }
+    results.push({ ...artifact, status });
+  }
+
+  return results;
+}
+
+/**
+ * Remove cached artifacts, all of them or only those for the given keys.
+ * Blobs no other key points to are deleted.
+ */
+export async function cleanCache(keys?: string[]): Promise<{ removed: number; bytes: number }> {
+  let removed = 0;
+  let bytes = 0;
+  let orphaned: string[] = [];
+
+  await updateIndex((index) => {
+    const before = new Set(Object.values(index.entries).map((e) => e.digest));
+
+    for (const key of keys ?? Object.keys(index.entries)) {
+      if (index.entries[key]) {
+        delete index.entries[key];
+        removed++;
+      }
+    }
+
+    // Refs pointing at removed keys are stale
+    for (const [ref, value] of Object.entries(index.refs)) {
+      if (!keys || keys.includes(value) || !index.entries[value]) {
+        delete index.refs[ref];
+      }
+    }
+
+    const remaining = new Set(Object.values(index.entries).map((e) => e.digest));
+    orphaned = [...before].filter((digest) => !remaining.has(digest));
+  });
+
+  for (const digest of orphaned) {
+    const blobPath = getBlobPath(digest);
+    try {
+      bytes += (await fs.stat(blobPath)).size;
+      await fs.rm(blobPath, { force: true });
+    } catch {
+      // Already gone
+    }
+  }
+
+  return { removed, bytes };
+}
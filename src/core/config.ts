@@ -8,10 +8,13 @@ export interface OutclawConfig {
   agent_name?: string;
   verified?: boolean;
   api_base?: string;
+  github_token?: string;
+  github_api_base?: string; // GitHub Enterprise API, e.g. https://github.example.com/api/v3
 }
 
 const CONFIG_FILE = 'config.json';
 const DEFAULT_API_BASE = 'https://outclaws.ai/api';
+export const DEFAULT_GITHUB_API_BASE = 'https://api.github.com';
 
 /**
  * Get config file path
@@ -85,6 +88,34 @@ export async function getApiBase(): Promise<string> {
   return config.api_base || DEFAULT_API_BASE;
 }
 
+/**
+ * Get GitHub token from environment or config
+ */
+export async function getGitHubToken(): Promise<string | undefined> {
+  // Environment variables take precedence, matching the gh CLI
+  if (process.env.GITHUB_TOKEN) {
+    return process.env.GITHUB_TOKEN;
+  }
+  if (process.env.GH_TOKEN) {
+    return process.env.GH_TOKEN;
+  }
+
+  const config = await loadConfig();
+  return config.github_token;
+}
+
+/**
+ * Get GitHub API base URL (GitHub Enterprise when configured)
+ */
+export async function getGitHubApiBase(): Promise<string> {
+  if (process.env.GITHUB_API_URL) {
+    return process.env.GITHUB_API_URL.replace(/\/+$/, '');
+  }
+
+  const config = await loadConfig();
+  return (config.github_api_base || DEFAULT_GITHUB_API_BASE).replace(/\/+$/, '');
+}
+
 /**
  * Check if user is logged in
  */
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ZodError } from 'zod';
+import { lintSkill, loadLintConfig, FRONTMATTER_RULE, type LintDiagnostic } from './lint.js';
+import { SkillParser, formatValidationErrors } from '../parsers/skill-parser.js';
+import { isSkillPath } from '../utils/files.js';
+import type { Skill } from '../schemas/skill.schema.js';
+
+export interface SkillCheck {
+  skill: Skill | null; // Parsed skill, null when SKILL.md fails validation
+  errors: string[];
+  diagnostics: LintDiagnostic[];
+  tokens: {
+    description: number; // Always in context, for matching
+    body: number; // Loaded when the skill is invoked
+  };
+}
+
+// Wait for editors to finish writing before checking again
+const WATCH_DEBOUNCE_MS = 150;
+
+/**
+ * Rough token count for English text, about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Parse and lint the skill in a directory, collecting every problem instead
+ * of throwing
+ */
+export async function checkSkill(dir: string): Promise<SkillCheck> {
+  const result: SkillCheck = { skill: null, errors: [], diagnostics: [], tokens: { description: 0, body: 0 } };
+
+  try {
+    result.skill = await new SkillParser(dir).parse();
+  } catch (error) {
+    if (error instanceof ZodError) {
+      result.errors.push(...formatValidationErrors(error));
+    } else {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      return result;
+    }
+  }
+
+  // Schema problems are already in errors
+  const { diagnostics } = await lintSkill(dir, { config: await loadLintConfig() });
+  result.diagnostics = diagnostics.filter((d) => d.rule !== FRONTMATTER_RULE);
+
+  if (result.skill) {
+    result.tokens = {
+      description: estimateTokens(result.skill.description),
+      body: estimateTokens(result.skill.content),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Watch a directory tree and call onChange once per burst of changes.
+ * Returns a function that stops watching.
+ */
+export function watchSkill(dir: string, onChange: (file: string) => void): () => void {
+  let timer: NodeJS.Timeout | null = null;
+  let changed = '';
+
+  const handle = (file: string) => {
+    if (!file.split(/[\\/]/).every(isSkillPath)) return;
+    changed = file;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      onChange(changed);
+    }, WATCH_DEBOUNCE_MS);
+  };
+
+  const watchers: fs.FSWatcher[] = [];
+
+  try {
+    watchers.push(fs.watch(dir, { recursive: true }, (_event, file) => handle(file?.toString() ?? '')));
+  } catch {
+    // Recursive watching is unavailable on Linux before Node 20: watch each directory
+    const watchTree = (relative: string) => {
+      const absolute = path.join(dir, relative);
+      watchers.push(fs.watch(absolute, (_event, file) => handle(path.join(relative, file?.toString() ?? ''))));
+
+      for (const entry of fs.readdirSync(absolute, { withFileTypes: true })) {
+        if (entry.isDirectory() && isSkillPath(entry.name)) {
+          watchTree(path.join(relative, entry.name));
+        }
+      }
+    };
+    watchTree('');
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
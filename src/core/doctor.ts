@@ -0,0 +1,224 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ZodError } from 'zod';
+import { ApiClient } from './api-client.js';
+import { getApiBase, getApiKey } from './config.js';
+import { readLockFile } from './lockfile.js';
+import { listSkillDirectories } from './verify.js';
+import { SkillParser, formatValidationErrors } from '../parsers/skill-parser.js';
+import {
+  getSkillsPathAsync,
+  getLockFilePathAsync,
+  pathExists,
+  resolveOpenclawPaths,
+  type OpenclawPaths,
+  type Scope,
+} from '../utils/paths.js';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  details: string[];
+}
+
+export interface ScopePaths {
+  scope: Scope;
+  skillsPath: string;
+  lockPath: string;
+}
+
+export interface DoctorReport {
+  openclaw: OpenclawPaths;
+  cwd: string;
+  scopes: ScopePaths[];
+  checks: DoctorCheck[];
+}
+
+const SCOPES: Scope[] = ['global', 'project'];
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  global: 'Global',
+  project: 'Project',
+};
+
+function check(name: string, status: CheckStatus, message: string, details: string[] = []): DoctorCheck {
+  return { name, status, message, details };
+}
+
+/**
+ * Check that a path can be written, or created by writing into its nearest
+ * existing ancestor
+ */
+async function checkWritable(target: string): Promise<{ writable: boolean; exists: boolean }> {
+  const exists = await pathExists(target);
+  let dir = target;
+
+  while (!(await pathExists(dir))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+
+  try {
+    await fs.access(dir, fs.constants.W_OK);
+    return { writable: true, exists };
+  } catch {
+    return { writable: false, exists };
+  }
+}
+
+async function checkOpenclawConfig(paths: OpenclawPaths): Promise<DoctorCheck> {
+  const name = 'OpenClaw config';
+
+  if (!(await pathExists(paths.configPath))) {
+    return check(name, 'warn', `Not found at ${paths.configPath}, using the default workspace`);
+  }
+
+  try {
+    const parsed = JSON.parse(await fs.readFile(paths.configPath, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('expected a JSON object');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return check(name, 'fail', `Cannot read ${paths.configPath}: ${message}`, [
+      'Global skills fall back to the default workspace until this is fixed.',
+    ]);
+  }
+
+  return check(name, 'ok', `${paths.configPath} (workspace from ${paths.workspaceSource})`);
+}
+
+async function checkScopePaths(paths: ScopePaths): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  const skills = await checkWritable(paths.skillsPath);
+  checks.push(
+    skills.writable
+      ? check(`${SCOPE_LABELS[paths.scope]} skills directory`, 'ok', skills.exists ? paths.skillsPath : `${paths.skillsPath} (created on first install)`)
+      : check(`${SCOPE_LABELS[paths.scope]} skills directory`, 'fail', `${paths.skillsPath} is not writable`)
+  );
+
+  const lock = await checkWritable(paths.lockPath);
+  if (!lock.writable) {
+    checks.push(check(`${SCOPE_LABELS[paths.scope]} lock file`, 'fail', `${paths.lockPath} is not writable`));
+    return checks;
+  }
+
+  try {
+    const manifest = await readLockFile(paths.scope);
+    checks.push(
+      check(
+        `${SCOPE_LABELS[paths.scope]} lock file`,
+        'ok',
+        manifest ? `${paths.lockPath} (${manifest.skills.length} skill(s))` : `${paths.lockPath} (created on first install)`
+      )
+    );
+  } catch (error) {
+    const details = error instanceof ZodError
+      ? formatValidationErrors(error)
+      : [error instanceof Error ? error.message : String(error)];
+    checks.push(check(`${SCOPE_LABELS[paths.scope]} lock file`, 'fail', `${paths.lockPath} is invalid`, details));
+  }
+
+  return checks;
+}
+
+async function checkApiKey(): Promise<DoctorCheck> {
+  const name = 'API key';
+  const apiKey = await getApiKey();
+  const apiBase = await getApiBase();
+
+  if (!apiKey) {
+    return check(name, 'warn', 'Not logged in; registry installs and publishing need "outclaw login"');
+  }
+
+  try {
+    const agent = await new ApiClient(apiBase, apiKey).verifyApiKey();
+    if (!agent) {
+      return check(name, 'fail', `Rejected by ${apiBase}`, ['Run "outclaw logout" then "outclaw login".']);
+    }
+    return check(name, 'ok', `Valid for ${agent.name}${agent.verified ? '' : ' (not verified)'}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return check(name, 'warn', `Could not reach ${apiBase}: ${message}`);
+  }
+}
+
+/**
+ * Find skill directories that listSkills skips because SKILL.md is missing
+ * or fails validation
+ */
+async function checkSkillFiles(paths: ScopePaths, dirs: string[]): Promise<DoctorCheck> {
+  const details: string[] = [];
+
+  for (const dir of dirs) {
+    const skillPath = path.join(paths.skillsPath, dir);
+
+    if (!(await pathExists(path.join(skillPath, 'SKILL.md')))) {
+      details.push(`${dir}: SKILL.md not found`);
+      continue;
+    }
+
+    try {
+      await new SkillParser(skillPath).parse();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        details.push(...formatValidationErrors(error).map((line) => `${dir}: ${line}`));
+      } else {
+        details.push(`${dir}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const name = `${SCOPE_LABELS[paths.scope]} skills`;
+  if (details.length > 0) {
+    return check(name, 'fail', 'Some skills are invalid and are skipped by "outclaw list"', details);
+  }
+  return check(name, 'ok', `${dirs.length} skill(s), all valid`);
+}
+
+function checkShadowing(global: string[], project: string[]): DoctorCheck {
+  const shadowed = project.filter((name) => global.includes(name));
+
+  if (shadowed.length > 0) {
+    return check(
+      'Shadowed skills',
+      'warn',
+      'Installed in both scopes; the project copy shadows the global one',
+      shadowed
+    );
+  }
+  return check('Shadowed skills', 'ok', 'No skill is installed in both scopes');
+}
+
+/**
+ * Resolve every path outclaw uses and check the environment around them
+ */
+export async function runDoctor(): Promise<DoctorReport> {
+  const openclaw = await resolveOpenclawPaths();
+  const scopes: ScopePaths[] = [];
+  const checks: DoctorCheck[] = [await checkOpenclawConfig(openclaw)];
+  const dirs = new Map<Scope, string[]>();
+
+  for (const scope of SCOPES) {
+    const paths: ScopePaths = {
+      scope,
+      skillsPath: await getSkillsPathAsync(scope),
+      lockPath: await getLockFilePathAsync(scope),
+    };
+    scopes.push(paths);
+    dirs.set(scope, await listSkillDirectories(paths.skillsPath));
+
+    checks.push(...(await checkScopePaths(paths)));
+    checks.push(await checkSkillFiles(paths, dirs.get(scope)!));
+  }
+
+  checks.push(checkShadowing(dirs.get('global')!, dirs.get('project')!));
+  checks.push(await checkApiKey());
+
+  return { openclaw, cwd: process.cwd(), scopes, checks };
+}
@@ -0,0 +1,102 @@
+import { getGitHubToken, getGitHubApiBase, DEFAULT_GITHUB_API_BASE } from './config.js';
+
+const TOKEN_HINT = 'Set GITHUB_TOKEN or GH_TOKEN, or github_token in ~/.config/outclaw/config.json.';
+
+interface GitHubHost {
+  apiBase: string;
+  origin: string; // Web origin repository URLs are built on
+  configured: boolean; // The host behind the configured API base, the one the token belongs to
+}
+
+/**
+ * Resolve how to reach a GitHub web host: github.com through the public API,
+ * the GitHub Enterprise host behind a configured API base through that base.
+ * Without a host the configured one is used; any other host is rejected.
+ */
+async function resolveGitHubHost(host?: string): Promise<GitHubHost> {
+  const apiBase = await getGitHubApiBase();
+  const origin = apiBase === DEFAULT_GITHUB_API_BASE ? 'https://github.com' : new URL(apiBase).origin;
+
+  if (!host || host === new URL(origin).host) {
+    return { apiBase, origin, configured: true };
+  }
+  if (host === 'github.com') {
+    return { apiBase: DEFAULT_GITHUB_API_BASE, origin: 'https://github.com', configured: false };
+  }
+  throw new Error(
+    `${host} is not the configured GitHub host. Point GITHUB_API_URL (or github_api_base in ~/.config/outclaw/config.json) at its API, for example https://${host}/api/v3.`
+  );
+}
+
+/**
+ * Request the API of a GitHub host (the configured one by default), sending
+ * the token when one is configured. The token is only sent to the configured
+ * host, so a GitHub Enterprise token never goes to github.com.
+ */
+export async function gitHubFetch(apiPath: string, accept: string, host?: string): Promise<Response> {
+  const [{ apiBase, configured }, token] = await Promise.all([resolveGitHubHost(host), getGitHubToken()]);
+
+  const headers: Record<string, string> = {
+    Accept: accept,
+    'User-Agent': 'outclaw',
+  };
+  if (token && configured) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return await fetch(`${apiBase}${apiPath}`, { headers });
+}
+
+/**
+ * Turn a failed GitHub response into an error that says whether
+ * authentication, rather than a missing repository, is the problem
+ */
+export async function gitHubError(response: Response, label: string): Promise<Error> {
+  const hasToken = Boolean(await getGitHubToken());
+
+  switch (response.status) {
+    case 401:
+      return new Error(`GitHub rejected the configured token while fetching ${label}. ${TOKEN_HINT}`);
+
+    case 403:
+      if (response.headers.get('x-ratelimit-remaining') === '0') {
+        return new Error(
+          `GitHub API rate limit exceeded while fetching ${label}.` + (hasToken ? '' : ` ${TOKEN_HINT}`)
+        );
+      }
+      return new Error(
+        hasToken
+          ? `Access to ${label} was denied. The token may lack the repo scope or SSO authorization.`
+          : `Access to ${label} was denied. ${TOKEN_HINT}`
+      );
+
+    case 404:
+    case 422:
+      // GitHub answers 404 for private repositories the caller cannot see
+      return new Error(
+        hasToken
+          ? `${label} not found, or the GitHub token has no access to it.`
+          : `${label} not found. If it is a private repository, authenticate: ${TOKEN_HINT}`
+      );
+
+    default:
+      return new Error(`Failed to fetch ${label} from GitHub: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Host serving repository web URLs: github.com, or the GitHub Enterprise host
+ * behind a configured API base
+ */
+export async function gitHubWebHost(): Promise<string> {
+  return new URL((await resolveGitHubHost()).origin).host;
+}
+
+/**
+ * Web URL of a repository on a GitHub host: github.com, or the GitHub
+ * Enterprise host behind a configured API base (https://host/api/v3)
+ */
+export async function gitHubRepositoryUrl(owner: string, repo: string, host?: string): Promise<string> {
+  const { origin } = await resolveGitHubHost(host);
+  return `${origin}/${owner}/${repo}`;
+}
@@ -1,3 +1,16 @@
 export * from './skill-manager.js';
 export * from './config.js';
 export * from './api-client.js';
+export * from './sources.js';
+export * from './clawhub.js';
+export * from './updates.js';
+export * from './lockfile.js';
+export * from './verify.js';
+export * from './cache.js';
+export * from './github.js';
+export * from './prune.js';
+export * from './doctor.js';
+export * from './lint.js';
+export * from './dev.js';
+export * from './security.js';
+export * from './permissions.js';
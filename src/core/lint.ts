@@ -0,0 +1,361 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { formatValidationErrors, parseSkillFrontmatter } from '../parsers/skill-parser.js';
+import { AVAILABLE_TOOLS, SkillFrontmatterSchema } from '../schemas/skill.schema.js';
+import { LintConfigSchema, type LintConfig } from '../schemas/lint.schema.js';
+import { readSkillFiles, type SkillFile } from '../utils/files.js';
+import { getLintConfigPath, pathExists } from '../utils/paths.js';
+
+export type LintSeverity = 'error' | 'warn';
+
+export interface LintDiagnostic {
+  rule: string;
+  severity: LintSeverity;
+  file: string; // Relative to the skill directory
+  line: number;
+  message: string;
+  fixable: boolean;
+}
+
+export interface LintResult {
+  diagnostics: LintDiagnostic[];
+  fixed: number;
+}
+
+export interface LintOptions {
+  config?: LintConfig;
+  fix?: boolean; // Apply safe rewrites, then report what is left
+}
+
+// Everything a rule needs to know about a skill. Fixes to SKILL.md edit
+// lines in place; they are written back once every rule has run.
+interface LintContext {
+  dir: string;
+  lines: string[]; // SKILL.md
+  frontmatter: Record<string, unknown>;
+  body: string;
+  files: SkillFile[];
+}
+
+interface LintProblem {
+  file?: string; // Defaults to SKILL.md
+  line?: number;
+  message: string;
+  fix?: () => Promise<void> | void; // Safe rewrite that resolves the problem
+}
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  check: (context: LintContext) => Promise<LintProblem[]> | LintProblem[];
+}
+
+// Diagnostics for SKILL.md frontmatter that fails the schema; these cannot be turned off
+export const FRONTMATTER_RULE = 'frontmatter';
+
+// Claude truncates descriptions past this length when matching skills
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+// Interpreters for the shebang added by --fix, by script extension
+const SCRIPT_INTERPRETERS: Record<string, string> = {
+  '': '',
+  '.sh': 'bash',
+  '.bash': 'bash',
+  '.py': 'python3',
+  '.js': 'node',
+  '.mjs': 'node',
+  '.cjs': 'node',
+  '.rb': 'ruby',
+  '.pl': 'perl',
+};
+
+const KNOWN_TOOLS = AVAILABLE_TOOLS.map((t) => t.value);
+
+/**
+ * Line number (1-based) of a top-level frontmatter key in SKILL.md, or 1
+ */
+function keyLine(lines: string[], key: string): number {
+  const index = lines.findIndex((line) => line.startsWith(`${key}:`));
+  return index >= 0 ? index + 1 : 1;
+}
+
+/**
+ * Lines (0-based) holding a frontmatter key's value, including indented or
+ * list continuation lines
+ */
+function keyLines(lines: string[], key: string): number[] {
+  const start = lines.findIndex((line) => line.startsWith(`${key}:`));
+  if (start < 0) return [];
+
+  const result = [start];
+  for (let i = start + 1; i < lines.length && /^(\s+|-\s)/.test(lines[i]); i++) {
+    result.push(i);
+  }
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Script files whose interpreter is known, or that have no extension at all
+ */
+function scriptFiles(files: SkillFile[]): SkillFile[] {
+  return files.filter((f) => f.path.startsWith('scripts/') && path.extname(f.path) in SCRIPT_INTERPRETERS);
+}
+
+const RULES: LintRule[] = [
+  {
+    id: 'unknown-tool',
+    severity: 'warn',
+    check: ({ lines, frontmatter }) => {
+      const value = frontmatter['allowed-tools'];
+      const tools = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+      const toolLines = keyLines(lines, 'allowed-tools');
+      const problems: LintProblem[] = [];
+
+      for (const entry of tools) {
+        if (typeof entry !== 'string') continue;
+        // Bash(git:*) grants part of Bash
+        const tool = entry.trim().replace(/\(.*$/, '');
+        if (!tool || KNOWN_TOOLS.includes(tool)) continue;
+
+        const pattern = new RegExp(`\\b${escapeRegExp(tool)}\\b`);
+        const index = toolLines.find((i) => pattern.test(lines[i])) ?? toolLines[0] ?? 0;
+        const known = KNOWN_TOOLS.find((t) => t.toLowerCase() === tool.toLowerCase());
+
+        problems.push({
+          line: index + 1,
+          message: known
+            ? `Unknown tool "${tool}" in allowed-tools; did you mean "${known}"?`
+            : `Unknown tool "${tool}" in allowed-tools (known: ${KNOWN_TOOLS.join(', ')})`,
+          fix: known
+            ? () => {
+                lines[index] = lines[index].replace(pattern, known);
+              }
+            : undefined,
+        });
+      }
+
+      return problems;
+    },
+  },
+  {
+    id: 'fork-without-agent',
+    severity: 'warn',
+    check: ({ lines, frontmatter }) => {
+      if (frontmatter.context !== 'fork' || frontmatter.agent) return [];
+      return [{ line: keyLine(lines, 'context'), message: '"context: fork" without "agent" uses the default subagent' }];
+    },
+  },
+  {
+    id: 'broken-link',
+    severity: 'error',
+    check: async ({ dir, lines }) => {
+      const problems: LintProblem[] = [];
+      const root = path.resolve(dir);
+
+      for (const [index, line] of lines.entries()) {
+        for (const match of line.matchAll(/\[[^\]]*\]\(([^)\s]+)[^)]*\)/g)) {
+          const link = match[1];
+          // External links, anchors and absolute paths are not part of the skill
+          if (/^[a-z][a-z0-9+.-]*:/i.test(link) || link.startsWith('#') || link.startsWith('/')) continue;
+
+          let relative = link.replace(/[#?].*$/, '');
+          try {
+            relative = decodeURI(relative);
+          } catch {
+            // Keep the link as written
+          }
+
+          const target = path.resolve(root, relative);
+          if (!target.startsWith(root + path.sep)) {
+            problems.push({ line: index + 1, message: `Link "${link}" points outside the skill directory` });
+          } else if (!(await pathExists(target))) {
+            problems.push({ line: index + 1, message: `Link "${link}" points to a file that does not exist` });
+          }
+        }
+      }
+
+      return problems;
+    },
+  },
+  {
+    id: 'script-shebang',
+    severity: 'warn',
+    check: ({ dir, files }) =>
+      scriptFiles(files)
+        .filter((f) => !f.content.subarray(0, 2).equals(Buffer.from('#!')))
+        .map((f) => {
+          const interpreter = SCRIPT_INTERPRETERS[path.extname(f.path)];
+          return {
+            file: f.path,
+            line: 1,
+            message: 'Script has no shebang line',
+            fix: interpreter
+              ? async () => {
+                  const content = Buffer.concat([Buffer.from(`#!/usr/bin/env ${interpreter}\n`), f.content]);
+                  await fs.writeFile(path.join(dir, f.path), content);
+                }
+              : undefined,
+          };
+        }),
+  },
+  {
+    id: 'script-executable',
+    severity: 'warn',
+    check: ({ dir, files }) =>
+      scriptFiles(files)
+        .filter((f) => f.mode !== undefined && (f.mode & 0o111) === 0)
+        .map((f) => ({
+          file: f.path,
+          line: 1,
+          message: 'Script is not executable',
+          fix: async () => {
+            await fs.chmod(path.join(dir, f.path), f.mode! | 0o111);
+          },
+        })),
+  },
+  {
+    id: 'description-length',
+    severity: 'warn',
+    check: ({ lines, frontmatter }) => {
+      const { description } = frontmatter;
+      if (typeof description !== 'string' || description.length <= MAX_DESCRIPTION_LENGTH) return [];
+      return [{
+        line: keyLine(lines, 'description'),
+        message: `Description is ${description.length} characters; keep it under ${MAX_DESCRIPTION_LENGTH}`,
+      }];
+    },
+  },
+  {
+    id: 'empty-body',
+    severity: 'warn',
+    check: ({ lines, body }) => {
+      if (body.trim()) return [];
+      return [{ line: lines.join('\n').trimEnd().split('\n').length, message: 'SKILL.md has no instructions after the frontmatter' }];
+    },
+  },
+];
+
+export const LINT_RULE_IDS = RULES.map((r) => r.id);
+
+/**
+ * Read .outclaw/lint.json from the current project, if there is one
+ */
+export async function loadLintConfig(): Promise<LintConfig> {
+  const configPath = getLintConfigPath();
+  if (!(await pathExists(configPath))) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${configPath}: ${message}`);
+  }
+
+  const config = LintConfigSchema.parse(data);
+  const unknown = Object.keys(config.rules ?? {}).filter((id) => !LINT_RULE_IDS.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown lint rule(s) in ${configPath}: ${unknown.join(', ')}\nAvailable: ${LINT_RULE_IDS.join(', ')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Check SKILL.md frontmatter against the schema used at install time
+ */
+function checkFrontmatter(lines: string[], frontmatter: Record<string, unknown>): LintDiagnostic[] {
+  const result = SkillFrontmatterSchema.safeParse(frontmatter);
+  if (result.success) return [];
+
+  return result.error.issues.map((issue, i) => ({
+    rule: FRONTMATTER_RULE,
+    severity: 'error',
+    file: 'SKILL.md',
+    line: issue.path.length > 0 ? keyLine(lines, String(issue.path[0])) : 1,
+    message: formatValidationErrors(result.error)[i],
+    fixable: false,
+  }));
+}
+
+async function readContext(dir: string): Promise<LintContext> {
+  const content = await fs.readFile(path.join(dir, 'SKILL.md'), 'utf-8');
+  const { frontmatter, body } = parseSkillFrontmatter(content);
+  return { dir, lines: content.split('\n'), frontmatter, body, files: await readSkillFiles(dir) };
+}
+
+/**
+ * Run the lint rules against the skill in a directory. With fix, safe
+ * rewrites are applied first and the diagnostics describe what is left.
+ */
+export async function lintSkill(dir: string, options: LintOptions = {}): Promise<LintResult> {
+  const settings = options.config?.rules ?? {};
+
+  const run = async (context: LintContext) => {
+    const found: Array<{ diagnostic: LintDiagnostic; fix?: LintProblem['fix'] }> = [];
+
+    for (const rule of RULES) {
+      const setting = settings[rule.id] ?? rule.severity;
+      if (setting === 'off') continue;
+
+      for (const problem of await rule.check(context)) {
+        found.push({
+          diagnostic: {
+            rule: rule.id,
+            severity: setting,
+            file: problem.file ?? 'SKILL.md',
+            line: problem.line ?? 1,
+            message: problem.message,
+            fixable: Boolean(problem.fix),
+          },
+          fix: problem.fix,
+        });
+      }
+    }
+
+    return found;
+  };
+
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, 'SKILL.md'), 'utf-8');
+    parseSkillFrontmatter(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      diagnostics: [{ rule: FRONTMATTER_RULE, severity: 'error', file: 'SKILL.md', line: 1, message, fixable: false }],
+      fixed: 0,
+    };
+  }
+
+  let context = await readContext(dir);
+  let found = await run(context);
+  let fixed = 0;
+
+  if (options.fix && found.some((f) => f.fix)) {
+    for (const { fix } of found) {
+      if (!fix) continue;
+      await fix();
+      fixed++;
+    }
+
+    const updated = context.lines.join('\n');
+    if (updated !== content) {
+      await fs.writeFile(path.join(dir, 'SKILL.md'), updated, 'utf-8');
+    }
+
+    context = await readContext(dir);
+    found = await run(context);
+  }
+
+  return {
+    diagnostics: [...checkFrontmatter(context.lines, context.frontmatter), ...found.map((f) => f.diagnostic)],
+    fixed,
+  };
+}
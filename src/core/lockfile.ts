@@ -0,0 +1,99 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseSkillFrontmatter } from '../parsers/skill-parser.js';
+import {
+  AnyOutclawManifestSchema,
+  type AnyOutclawManifest,
+  type OutclawManifest,
+} from '../schemas/manifest.schema.js';
+import { hashSkillDirectory } from '../utils/integrity.js';
+import {
+  getLockFilePathAsync,
+  getSkillPathAsync,
+  ensureDir,
+  pathExists,
+  type Scope,
+} from '../utils/paths.js';
+
+/**
+ * Read and validate the lock file for a scope, migrating older versions in memory.
+ * Returns null when there is no lock file.
+ */
+export async function readLockFile(scope: Scope): Promise<OutclawManifest | null> {
+  const lockPath = await getLockFilePathAsync(scope);
+
+  if (!(await pathExists(lockPath))) {
+    return null;
+  }
+
+  const content = await fs.readFile(lockPath, 'utf-8');
+  return migrateManifest(AnyOutclawManifestSchema.parse(JSON.parse(content)));
+}
+
+/**
+ * Upgrade a lock file to the current version.
+ * v1 always recorded version '1.0.0', so the real version and the integrity
+ * are filled in from the installed copy when the lock is next written.
+ */
+export function migrateManifest(manifest: AnyOutclawManifest): OutclawManifest {
+  if (manifest.version === 2) {
+    return manifest;
+  }
+
+  return {
+    version: 2,
+    skills: manifest.skills.map(({ version: _placeholder, ...entry }) => entry),
+  };
+}
+
+/**
+ * Write the lock file for a scope, completing entries migrated from v1
+ */
+export async function writeLockFile(scope: Scope, manifest: OutclawManifest): Promise<void> {
+  for (const entry of manifest.skills) {
+    // Linked skills change freely and are never hashed
+    if (entry.integrity || entry.source.linked) continue;
+
+    const skillPath = await getSkillPathAsync(entry.name, scope);
+    const skillMdPath = path.join(skillPath, 'SKILL.md');
+    if (!(await pathExists(skillMdPath))) continue;
+
+    const hashes = await hashSkillDirectory(skillPath);
+    entry.integrity = hashes.integrity;
+    entry.files = hashes.files;
+
+    if (!entry.version) {
+      const { frontmatter } = parseSkillFrontmatter(await fs.readFile(skillMdPath, 'utf-8'));
+      if (typeof frontmatter.version === 'string') {
+        entry.version = frontmatter.version;
+      }
+    }
+  }
+
+  const lockPath = await getLockFilePathAsync(scope);
+  await ensureDir(path.dirname(lockPath));
+
+  // Write then rename so the lock is never left half-written
+  const tempPath = `${lockPath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify({ ...manifest, version: 2 }, null, 2));
+  await fs.rename(tempPath, lockPath);
+}
+
+/**
+ * Capture the lock file as it is now and return a function that puts it back,
+ * removing the lock if there was none
+ */
+export async function snapshotLockFile(scope: Scope): Promise<() => Promise<void>> {
+  const lockPath = await getLockFilePathAsync(scope);
+  const content = (await pathExists(lockPath)) ? await fs.readFile(lockPath) : null;
+
+  return async () => {
+    if (content === null) {
+      await fs.rm(lockPath, { force: true });
+      return;
+    }
+    const tempPath = `${lockPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, lockPath);
+  };
+}
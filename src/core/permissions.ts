@@ -0,0 +1,65 @@
+// Frontmatter fields that change how much a skill can do without asking
+const REVIEWED_FIELDS = ['model', 'context', 'agent'] as const;
+
+export interface PermissionDiff {
+  addedTools: string[];
+  removedTools: string[];
+  changed: Array<{ field: (typeof REVIEWED_FIELDS)[number]; from?: string; to?: string }>;
+}
+
+function readTools(frontmatter: Record<string, unknown>): string[] {
+  const value = frontmatter['allowed-tools'];
+  const tools = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  return tools.filter((t): t is string => typeof t === 'string').map((t) => t.trim()).filter(Boolean);
+}
+
+function readField(frontmatter: Record<string, unknown>, field: string): string | undefined {
+  const value = frontmatter[field];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Compare the permission-related frontmatter of an installed skill with the
+ * copy about to replace it
+ */
+export function diffPermissions(
+  installed: Record<string, unknown>,
+  incoming: Record<string, unknown>
+): PermissionDiff {
+  const before = readTools(installed);
+  const after = readTools(incoming);
+
+  const changed: PermissionDiff['changed'] = [];
+  for (const field of REVIEWED_FIELDS) {
+    const from = readField(installed, field);
+    const to = readField(incoming, field);
+    if (from !== to) {
+      changed.push({ field, from, to });
+    }
+  }
+
+  return {
+    addedTools: after.filter((t) => !before.includes(t)),
+    removedTools: before.filter((t) => !after.includes(t)),
+    changed,
+  };
+}
+
+/**
+ * A replacement escalates when it grants new tools or changes how the skill
+ * runs; only dropping tools does not
+ */
+export function isEscalation(diff: PermissionDiff): boolean {
+  return diff.addedTools.length > 0 || diff.changed.length > 0;
+}
+
+/**
+ * Readable lines describing a permission diff
+ */
+export function formatPermissionDiff(diff: PermissionDiff): string[] {
+  return [
+    ...diff.addedTools.map((tool) => `+ allowed-tools: ${tool}`),
+    ...diff.removedTools.map((tool) => `- allowed-tools: ${tool}`),
+    ...diff.changed.map(({ field, from, to }) => `~ ${field}: ${from ?? '(unset)'} -> ${to ?? '(unset)'}`),
+  ];
+}
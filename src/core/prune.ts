@@ -0,0 +1,34 @@
+import { verifyScope } from './verify.js';
+import type { Scope } from '../utils/paths.js';
+
+// A lock entry whose directory is gone, or a directory with no lock entry
+export type DriftKind = 'orphaned' | 'unmanaged';
+
+export interface DriftItem {
+  name: string;
+  scope: Scope;
+  path: string;
+  kind: DriftKind;
+}
+
+/**
+ * Find where a scope's skills directory and lock file disagree about which
+ * skills are installed
+ */
+export async function findDrift(scope: Scope): Promise<DriftItem[]> {
+  const results = await verifyScope(scope);
+  const drift: DriftItem[] = [];
+
+  for (const result of results) {
+    if (result.status === 'missing' || result.status === 'unmanaged') {
+      drift.push({
+        name: result.name,
+        scope,
+        path: result.path,
+        kind: result.status === 'missing' ? 'orphaned' : 'unmanaged',
+      });
+    }
+  }
+
+  return drift;
+}
@@ -0,0 +1,218 @@
+import type { SecurityScan } from './api-client.js';
+import { parseSkillFrontmatter } from '../parsers/skill-parser.js';
+import type { SkillFile } from '../utils/files.js';
+
+export type FindingSeverity = 'high' | 'medium';
+
+export interface SecurityFinding {
+  rule: string;
+  severity: FindingSeverity;
+  file: string;
+  line: number;
+  message: string;
+}
+
+// Same shape as the registry's publish-time scan, with the findings behind it.
+// High severity findings fail the scan; medium ones are reported only.
+export interface LocalSecurityScan extends SecurityScan {
+  findings: SecurityFinding[];
+}
+
+export class SecurityScanError extends Error {
+  constructor(
+    public skill: string,
+    public scan: LocalSecurityScan
+  ) {
+    super(
+      [
+        `Security scan flagged "${skill}": ${scan.explanation}`,
+        ...scan.risk_factors.map((factor) => `  - ${factor}`),
+        'Use --skip-scan to install it anyway.',
+      ].join('\n')
+    );
+    this.name = 'SecurityScanError';
+  }
+}
+
+interface LinePattern {
+  rule: string;
+  severity: FindingSeverity;
+  pattern: RegExp;
+  message: string;
+  scriptsOnly?: boolean;
+}
+
+const NETWORK_COMMAND = /\b(curl|wget|nc|ncat|netcat|scp|rsync|Invoke-WebRequest|Invoke-RestMethod)\b|\bfetch\(|requests\.(get|post)\(/;
+// Credential files and environment dumps have no business leaving the machine
+const SECRET_FILE =
+  /~\/\.ssh|\bid_(rsa|ed25519|ecdsa)\b|\.aws\/credentials|\.netrc\b|\.npmrc\b|\.git-credentials|\.docker\/config\.json|\bprintenv\b|\benv\s*\|/;
+// A service's token sent to that service is normal for authenticated API calls
+const SECRET_VARIABLE = /\$\{?[A-Z_]*(TOKEN|SECRET|PASSWORD|API_KEY|ACCESS_KEY)[A-Z_]*\}?/g;
+// A quoted header such as "Authorization: Bearer $TOKEN" or 'X-Api-Key: $KEY'
+const AUTH_HEADER = /(["'])\s*(authorization|[\w-]*(token|key|auth)[\w-]*)\s*:[^"'\n]*\1/gi;
+const URL_HOST = /\bhttps?:\/\/([^\/\s"'?#:]+)/gi;
+// A literal host name, not an IP address or a variable
+const NAMED_HOST = /^([a-z0-9-]+\.)+[a-z]{2,}$/i;
+// Variable prefixes of services whose site goes by another name
+const SERVICE_SITES: Record<string, string> = { gh: 'github', hf: 'huggingface', npm: 'npmjs' };
+
+const LINE_PATTERNS: LinePattern[] = [
+  {
+    rule: 'pipe-to-shell',
+    severity: 'high',
+    pattern: /\b(curl|wget)\b[^\n|]*\|\s*(sudo\s+)?(ba|z|da|k)?sh\b|\b(ba|z)?sh\s+<\(\s*(curl|wget)\b/,
+    message: 'Downloads a script and pipes it straight into a shell',
+  },
+  {
+    rule: 'decode-and-run',
+    severity: 'high',
+    pattern:
+      /base64\s+(-d|--decode)\b[^\n|]*\|\s*(ba|z)?sh\b|\b(eval|exec)\s*\(\s*(atob|base64\.b64decode|Buffer\.from\([^)]*['"]base64['"]\)|codecs\.decode|bytes\.fromhex)/,
+    message: 'Decodes hidden content and executes it',
+  },
+  {
+    rule: 'prompt-injection',
+    severity: 'high',
+    pattern:
+      /\b(ignore|disregard|forget)\s+(all\s+|any\s+|the\s+|your\s+)*(previous|prior|above|earlier|system)\s+(instructions|prompts?|rules)\b|\b(do not|don't|never)\s+(tell|inform|show|alert)\s+the\s+user\b|\bwithout\s+(telling|informing|asking)\s+the\s+user\b/i,
+    message: 'Contains a phrase used to override the agent\'s instructions',
+  },
+  {
+    rule: 'base64-blob',
+    severity: 'medium',
+    pattern: /[A-Za-z0-9+/]{200,}={0,2}/,
+    message: 'Contains a long base64 blob',
+  },
+  {
+    rule: 'obfuscated-script',
+    severity: 'medium',
+    pattern: /(\\x[0-9a-fA-F]{2}){20,}|(\\u[0-9a-fA-F]{4}){20,}|\bString\.fromCharCode\((\s*\d+\s*,){10,}|^.{1000,}$/,
+    message: 'Looks minified or obfuscated',
+    scriptsOnly: true,
+  },
+];
+
+/**
+ * Treat a file as binary if it has a NUL byte near the start
+ */
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Check whether allowed-tools pre-approves Bash (including Bash(...) patterns)
+ */
+function allowsBash(files: SkillFile[]): boolean {
+  const skillMd = files.find((f) => f.path === 'SKILL.md');
+  if (!skillMd) return false;
+
+  try {
+    const value = parseSkillFrontmatter(skillMd.content.toString('utf-8')).frontmatter['allowed-tools'];
+    const tools = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+    return tools.some((t) => typeof t === 'string' && /^bash\b/i.test(t.trim()));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Service a secret variable belongs to, from its first word ($GITHUB_TOKEN -> github)
+ */
+function variableService(variable: string): string {
+  const prefix = variable.replace(/^\$\{?/, '').split('_')[0].toLowerCase();
+  return SERVICE_SITES[prefix] ?? prefix;
+}
+
+/**
+ * Site a host belongs to, the label before its top-level domain (api.github.com -> github)
+ */
+function siteName(host: string): string {
+  const labels = host.toLowerCase().split('.');
+  return labels[labels.length - 2] ?? '';
+}
+
+/**
+ * Check whether the secrets on a network line are environment variables sent
+ * in auth headers to the service they are named after, as in ordinary API
+ * calls ($GITHUB_TOKEN to api.github.com)
+ */
+function isAuthenticatedRequest(line: string): boolean {
+  if (SECRET_FILE.test(line) || line.replace(AUTH_HEADER, '').match(SECRET_VARIABLE)) {
+    return false;
+  }
+
+  const hosts = [...line.matchAll(URL_HOST)].map((match) => match[1]);
+  if (hosts.length === 0 || !hosts.every((host) => NAMED_HOST.test(host))) {
+    return false;
+  }
+
+  const services = (line.match(AUTH_HEADER) ?? []).flatMap((header) => header.match(SECRET_VARIABLE) ?? []).map(variableService);
+  return services.every((service) => hosts.every((host) => siteName(host) === service));
+}
+
+function explain(findings: SecurityFinding[]): string {
+  const high = findings.filter((f) => f.severity === 'high').length;
+  const medium = findings.length - high;
+
+  if (findings.length === 0) {
+    return 'No risky patterns found.';
+  }
+  if (high === 0) {
+    return `${medium} pattern(s) worth reviewing, none considered dangerous.`;
+  }
+  return `${high} dangerous pattern(s)${medium ? ` and ${medium} more worth reviewing` : ''}. Review the skill before installing it.`;
+}
+
+/**
+ * Scan a skill's files for patterns that are commonly used to attack the
+ * agent or the machine running it
+ */
+export function scanSkillFiles(files: SkillFile[]): LocalSecurityScan {
+  const findings: SecurityFinding[] = [];
+  const bash = allowsBash(files);
+  let networkReported = false;
+
+  for (const file of files) {
+    if (isBinary(file.content)) continue;
+
+    const isScript = file.path.startsWith('scripts/');
+    const lines = file.content.toString('utf-8').split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      const at = { file: file.path, line: index + 1 };
+
+      for (const { rule, severity, pattern, message, scriptsOnly } of LINE_PATTERNS) {
+        if (scriptsOnly && !isScript) continue;
+        if (pattern.test(line)) {
+          findings.push({ rule, severity, ...at, message });
+        }
+      }
+
+      const network = NETWORK_COMMAND.test(line);
+
+      if (network && (SECRET_FILE.test(line) || line.match(SECRET_VARIABLE))) {
+        const { rule, severity, message } = isAuthenticatedRequest(line)
+          ? { rule: 'authenticated-request', severity: 'medium' as const, message: 'Sends a service token in an auth header to that service' }
+          : { rule: 'credential-exfiltration', severity: 'high' as const, message: 'Sends credentials or secrets over the network' };
+        findings.push({ rule, severity, ...at, message });
+      }
+
+      if (network && bash && !networkReported) {
+        networkReported = true;
+        findings.push({
+          rule: 'bash-network',
+          severity: 'medium',
+          ...at,
+          message: 'Bash is pre-approved in allowed-tools and the skill runs network commands',
+        });
+      }
+    }
+  }
+
+  return {
+    passed: !findings.some((f) => f.severity === 'high'),
+    risk_factors: findings.map((f) => `${f.file}:${f.line} ${f.message} (${f.rule})`),
+    explanation: explain(findings),
+    findings,
+  };
+}
@@ -1,19 +1,36 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { SkillParser, generateSkillMd } from '../parsers/skill-parser.js';
+import semver from 'semver';
+import { ZodError } from 'zod';
+import {
+  SkillParser,
+  formatValidationErrors,
+  generateSkillMd,
+  parseSkillFrontmatter,
+  validateSkillContent,
+} from '../parsers/skill-parser.js';
+import { readLockFile, writeLockFile, snapshotLockFile } from './lockfile.js';
+import { fetchSkills, parseSkillSpecifier, type ParsedSource, type ResolvedSkill } from './sources.js';
+import { gitHubWebHost } from './github.js';
+import { scanSkillFiles, SecurityScanError } from './security.js';
+import { diffPermissions, type PermissionDiff } from './permissions.js';
 import {
   getSkillsPathAsync,
   getSkillPathAsync,
   getLockFilePathAsync,
   ensureDir,
   pathExists,
+  isSafeSkillName,
   type Scope,
 } from '../utils/paths.js';
-import type { Skill, SkillFrontmatter } from '../schemas/skill.schema.js';
+import { writeSkillFiles, type SkillFile } from '../utils/files.js';
+import { computeIntegrity, computeFileHashes, hashSkillDirectory } from '../utils/integrity.js';
+import { SkillFrontmatterSchema, type Skill, type SkillFrontmatter } from '../schemas/skill.schema.js';
 import type { OutclawManifest, SkillManifest, SkillSource } from '../schemas/manifest.schema.js';
 
 export interface SkillInfo extends Skill {
   scope: Scope;
+  linkTarget?: string; // Directory the skill is symlinked to, for linked skills
 }
 
 export interface CreateSkillOptions {
@@ -31,14 +48,118 @@ export interface CreateSkillOptions {
   content?: string;
 }
 
+// Directories swapInSkill leaves next to the skills: .<name>.<kind>-<pid>-<time>
+const SWAP_DIR_PATTERN = /^\.(.+)\.(staging|backup)-(\d+)-(\d+)$/;
+
+// A skill directory swapped into place, with the previous copy kept aside
+interface SwappedSkill {
+  restore: () => Promise<void>; // Put the previous copy (or nothing) back
+  discard: () => Promise<void>; // Drop the previous copy once the install is committed
+}
+
 export interface InstallOptions {
   force?: boolean;
   source: SkillSource;
+  originalName?: string; // Name declared at the source when installed under an alias
+  dependencies?: boolean; // Resolve and install frontmatter dependencies, defaults to true
+  offline?: boolean; // Fetch dependencies from the download cache only
+  skipValidation?: boolean; // Fetch dependencies without validating their frontmatter
+  skipScan?: boolean; // Install even when the security scan finds dangerous patterns
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;
+}
+
+function readFrontmatter(files: SkillFile[]): Record<string, unknown> {
+  const skillMd = files.find((f) => f.path === 'SKILL.md');
+  return skillMd ? parseSkillFrontmatter(skillMd.content.toString('utf-8')).frontmatter : {};
+}
+
+function readVersion(frontmatter: Record<string, unknown>): string | undefined {
+  return typeof frontmatter.version === 'string' ? frontmatter.version : undefined;
+}
+
+/**
+ * Read the dependencies map from a skill's frontmatter
+ */
+function readDependencies(name: string, frontmatter: Record<string, unknown>): Record<string, string> {
+  const result = SkillFrontmatterSchema.shape.dependencies.safeParse(frontmatter.dependencies);
+  if (!result.success) {
+    throw new Error(`Skill "${name}" has invalid dependencies: expected a map of skill names to specifiers or ranges`);
+  }
+  return result.data ?? {};
+}
+
+/**
+ * A dependency declared as a bare semver range refers to the registry skill
+ * of that name; anything else is an install specifier
+ */
+function dependencySpecifier(name: string, value: string): { specifier: string; range?: string } {
+  return semver.validRange(value) ? { specifier: `${name}@${value}`, range: value } : { specifier: value };
+}
+
+/**
+ * Recompute every lock entry's requiredBy list from the dependencies of the others
+ */
+function linkDependents(manifest: OutclawManifest): void {
+  for (const entry of manifest.skills) {
+    const requiredBy = manifest.skills
+      .filter((s) => s.dependencies?.includes(entry.name))
+      .map((s) => s.name)
+      .sort();
+    entry.requiredBy = requiredBy.length > 0 ? requiredBy : undefined;
+  }
+}
+
+/**
+ * Check whether a process (this one included) is still running
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: running, but owned by another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Parse a dependency specifier declared by a skill from the given source.
+ * Local paths are relative to the declaring skill, and only skills that were
+ * themselves installed from a local path may declare them.
+ */
+async function parseDependencySpecifier(
+  parent: string,
+  parentSource: SkillSource | undefined,
+  specifier: string
+): Promise<ParsedSource> {
+  const source = parseSkillSpecifier(specifier, await gitHubWebHost());
+  if (source.type !== 'local') {
+    return source;
+  }
+
+  if (parentSource?.type !== 'local' || !parentSource.path) {
+    throw new Error(`${parent} declares the local path ${specifier} as a dependency, but was not installed from a local path`);
+  }
+
+  // The parent's path is its directory, SKILL.md or archive
+  const isDirectory = await fs.stat(parentSource.path).then((s) => s.isDirectory(), () => false);
+  const baseDir = isDirectory ? parentSource.path : path.dirname(parentSource.path);
+  return { ...source, localPath: path.resolve(baseDir, source.localPath!) };
+}
+
+function checkRange(parent: string, name: string, range: string | undefined, version: string | undefined): void {
+  if (range && !(version && semver.satisfies(version, range))) {
+    throw new Error(
+      `Version conflict: ${parent} requires ${name}@${range}, but ${version ? `version ${version}` : 'an unversioned copy'} is installed or selected`
+    );
+  }
 }
 
 export class SkillManager {
   private scope: Scope;
   private basePath: string | null = null;
+  private recovery: Promise<void> | null = null;
 
   constructor(scope: Scope = 'project') {
     this.scope = scope;
@@ -51,6 +172,52 @@ export class SkillManager {
     return this.basePath;
   }
 
+  /**
+   * Clean up after installs that died mid-swap, once per manager. A kept-aside
+   * copy is put back when its skill is missing, or when the copy matches the
+   * lock entry's integrity and the skill in place (swapped in, but never
+   * recorded) does not. Any other staging or backup directory is removed.
+   * Those of running installs are left alone.
+   */
+  private async recoverInterruptedInstalls(): Promise<void> {
+    this.recovery ??= (async () => {
+      const basePath = await this.getBasePath();
+      const entries = await fs.readdir(basePath).catch(() => [] as string[]);
+      const manifest = await readLockFile(this.scope).catch(() => null);
+
+      const leftovers = entries
+        .map((entry) => SWAP_DIR_PATTERN.exec(entry))
+        .filter((match): match is RegExpExecArray => match !== null && !isRunning(Number(match[3])))
+        // Newest first, so the copy from just before the crash wins
+        .sort((a, b) => Number(b[4]) - Number(a[4]));
+
+      for (const [entry, name, kind] of leftovers) {
+        const leftoverPath = path.join(basePath, entry);
+        const skillPath = path.join(basePath, name);
+
+        if (kind === 'backup' && !(await fs.lstat(skillPath).catch(() => null))) {
+          await fs.rename(leftoverPath, skillPath);
+          continue;
+        }
+
+        const integrity = manifest?.skills.find((s) => s.name === name)?.integrity;
+        if (
+          kind === 'backup' &&
+          integrity &&
+          (await hashSkillDirectory(leftoverPath)).integrity === integrity &&
+          (await hashSkillDirectory(skillPath)).integrity !== integrity
+        ) {
+          await fs.rm(skillPath, { recursive: true, force: true });
+          await fs.rename(leftoverPath, skillPath);
+          continue;
+        }
+
+        await fs.rm(leftoverPath, { recursive: true, force: true });
+      }
+    })();
+    await this.recovery;
+  }
+
   /**
    * List all installed skills
    */
@@ -66,16 +233,18 @@ export class SkillManager {
         if (dir.startsWith('.')) continue;
 
         const skillPath = path.join(basePath, dir);
-        const stat = await fs.stat(skillPath);
-
-        if (stat.isDirectory()) {
-          try {
-            const parser = new SkillParser(skillPath);
-            const skill = await parser.parse();
-            skills.push({ ...skill, scope: this.scope });
-          } catch {
-            // Skip invalid skills
-          }
+
+        try {
+          // stat follows linked skills to their directory; a dangling link throws
+          const stat = await fs.stat(skillPath);
+          if (!stat.isDirectory()) continue;
+
+          const parser = new SkillParser(skillPath);
+          const skill = await parser.parse();
+          const linkTarget = await this.getLinkTarget(dir);
+          skills.push({ ...skill, scope: this.scope, ...(linkTarget ? { linkTarget } : {}) });
+        } catch {
+          // Skip invalid skills and dangling links
         }
       }
     } catch {
@@ -100,6 +269,42 @@ export class SkillManager {
     }
   }
 
+  /**
+   * Get the directory a linked skill points to, or null for a regular skill
+   */
+  async getLinkTarget(name: string): Promise<string | null> {
+    const skillPath = await getSkillPathAsync(name, this.scope);
+
+    try {
+      if (!(await fs.lstat(skillPath)).isSymbolicLink()) {
+        return null;
+      }
+      return path.resolve(path.dirname(skillPath), await fs.readlink(skillPath));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Compare the permissions of an installed skill with a file tree about to
+   * replace it. Returns null when the skill is not installed.
+   */
+  async diffPermissions(name: string, files: SkillFile[]): Promise<PermissionDiff | null> {
+    const skillMdPath = path.join(await getSkillPathAsync(name, this.scope), 'SKILL.md');
+    if (!(await pathExists(skillMdPath))) {
+      return null;
+    }
+
+    let installed: Record<string, unknown> = {};
+    try {
+      installed = parseSkillFrontmatter(await fs.readFile(skillMdPath, 'utf-8')).frontmatter;
+    } catch {
+      // Unreadable frontmatter grants nothing, so everything new shows as added
+    }
+
+    return diffPermissions(installed, readFrontmatter(files));
+  }
+
   /**
    * Check if a skill exists
    */
@@ -162,36 +367,296 @@ export class SkillManager {
   }
 
   /**
-   * Install a skill from content
+   * Install a skill from a file tree (SKILL.md, references/, scripts/, examples/)
    */
   async installSkill(
     name: string,
-    skillMdContent: string,
+    files: SkillFile[],
     options: InstallOptions
   ): Promise<string> {
-    const skillPath = await getSkillPathAsync(name, this.scope);
+    if (!isSafeSkillName(name)) {
+      throw new Error(`Invalid skill name: ${JSON.stringify(name)}`);
+    }
+    if (!files.some((f) => f.path === 'SKILL.md')) {
+      throw new Error(`Skill "${name}" has no SKILL.md`);
+    }
 
-    // Check if skill already exists
+    await this.recoverInterruptedInstalls();
+
+    const skillPath = await getSkillPathAsync(name, this.scope);
     if (!options.force && (await pathExists(skillPath))) {
       throw new Error(`Skill "${name}" already exists. Use --force to overwrite.`);
     }
 
-    // Create skill directory
-    await ensureDir(skillPath);
+    // Resolve the whole dependency tree before touching the skills directory
+    const dependencies: ResolvedSkill[] = [];
+    if (options.dependencies !== false) {
+      await this.checkDependents(name, readVersion(readFrontmatter(files)));
+      dependencies.push(...(await this.resolveDependencies(name, files, options)));
+    }
 
-    // Write SKILL.md
-    await fs.writeFile(path.join(skillPath, 'SKILL.md'), skillMdContent, 'utf-8');
+    // Everything about to be written is scanned first, dependencies included
+    if (!options.skipScan) {
+      for (const skill of [...dependencies, { name, files }]) {
+        options.onProgress?.(`Scanning ${skill.name}...`);
+        const scan = scanSkillFiles(skill.files);
+        if (!scan.passed) {
+          throw new SecurityScanError(skill.name, scan);
+        }
+        for (const factor of scan.risk_factors) {
+          options.onWarning?.(`${skill.name}: ${factor}`);
+        }
+      }
+    }
+
+    // Dependencies and the skill are one transaction: on any failure every
+    // directory and the lock file go back to how they were
+    const restoreLock = await snapshotLockFile(this.scope);
+    const swapped: SwappedSkill[] = [];
+
+    try {
+      for (const dependency of dependencies) {
+        options.onProgress?.(`Installing dependency ${dependency.name}...`);
+        swapped.push(await this.swapInSkill(dependency.name, dependency.files, options.force));
+        await this.updateManifest(dependency.name, dependency.source, dependency.files);
+      }
 
-    // Update manifest
-    await this.updateManifest(name, options.source);
+      swapped.push(await this.swapInSkill(name, files, options.force));
+      await this.updateManifest(name, options.source, files, options.originalName);
+    } catch (error) {
+      for (const skill of swapped.reverse()) {
+        await skill.restore();
+      }
+      await restoreLock();
+      throw error;
+    }
+
+    for (const skill of swapped) {
+      await skill.discard();
+    }
 
     return skillPath;
   }
 
+  /**
+   * Write a skill tree into a hidden staging directory next to the installed
+   * skills (so the final rename stays on one filesystem), check it there and
+   * swap it into place. The previous copy is kept aside until discarded.
+   */
+  private async swapInSkill(name: string, files: SkillFile[], force?: boolean): Promise<SwappedSkill> {
+    const basePath = await this.getBasePath();
+    const skillPath = await getSkillPathAsync(name, this.scope);
+    const exists = await pathExists(skillPath);
+
+    if (exists && !force) {
+      throw new Error(`Skill "${name}" already exists. Use --force to overwrite.`);
+    }
+
+    const suffix = `${process.pid}-${Date.now()}`;
+    const stagingPath = path.join(basePath, `.${name}.staging-${suffix}`);
+    const backupPath = path.join(basePath, `.${name}.backup-${suffix}`);
+
+    try {
+      await ensureDir(stagingPath);
+      await writeSkillFiles(stagingPath, files);
+
+      // The staged tree must read back exactly as fetched, with parseable frontmatter
+      if ((await hashSkillDirectory(stagingPath)).integrity !== computeIntegrity(files)) {
+        throw new Error(`Staged copy of "${name}" does not match the downloaded files`);
+      }
+      parseSkillFrontmatter(await fs.readFile(path.join(stagingPath, 'SKILL.md'), 'utf-8'));
+
+      if (exists) {
+        await fs.rename(skillPath, backupPath);
+      }
+      try {
+        await fs.rename(stagingPath, skillPath);
+      } catch (error) {
+        if (exists) {
+          await fs.rename(backupPath, skillPath);
+        }
+        throw error;
+      }
+    } catch (error) {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    return {
+      restore: async () => {
+        await fs.rm(skillPath, { recursive: true, force: true });
+        if (exists) {
+          await fs.rename(backupPath, skillPath);
+        }
+      },
+      discard: async () => {
+        await fs.rm(backupPath, { recursive: true, force: true });
+      },
+    };
+  }
+
+  /**
+   * Collect the transitive dependencies of a skill that are not installed yet,
+   * deepest first. Throws on cycles and on installed or selected versions that
+   * fall outside a declared range.
+   */
+  private async resolveDependencies(
+    name: string,
+    files: SkillFile[],
+    options: Pick<InstallOptions, 'source' | 'offline' | 'skipValidation' | 'onProgress'>
+  ): Promise<ResolvedSkill[]> {
+    const selected = new Map<string, ResolvedSkill>();
+    const visited = new Set<string>();
+    const order: ResolvedSkill[] = [];
+
+    const visit = async (
+      parent: string,
+      parentSource: SkillSource | undefined,
+      dependencies: Record<string, string>,
+      chain: string[]
+    ) => {
+      for (const [dependency, value] of Object.entries(dependencies)) {
+        if (chain.includes(dependency)) {
+          throw new Error(`Dependency cycle: ${[...chain, dependency].join(' -> ')}`);
+        }
+
+        const { specifier, range } = dependencySpecifier(dependency, value);
+
+        const planned = selected.get(dependency);
+        if (planned) {
+          checkRange(parent, dependency, range, readVersion(readFrontmatter(planned.files)));
+          continue;
+        }
+
+        const installed = await this.getSkill(dependency);
+        if (installed) {
+          checkRange(parent, dependency, range, installed.version);
+          if (!visited.has(dependency)) {
+            visited.add(dependency);
+            const entry = (await this.getManifest()).skills.find((s) => s.name === dependency);
+            await visit(dependency, entry?.source, installed.dependencies ?? {}, [...chain, dependency]);
+          }
+          continue;
+        }
+
+        options.onProgress?.(`Resolving dependency ${dependency} of ${parent}...`);
+        const skills = await fetchSkills(await parseDependencySpecifier(parent, parentSource, specifier), {
+          select: async (candidates) => candidates.filter((c) => c.name === dependency),
+          offline: options.offline,
+          skipValidation: options.skipValidation,
+        });
+        const skill = skills.find((s) => s.name === dependency);
+        if (!skill) {
+          throw new Error(`Dependency "${dependency}" of ${parent} was not found at ${specifier}`);
+        }
+
+        const frontmatter = readFrontmatter(skill.files);
+        checkRange(parent, dependency, range, readVersion(frontmatter));
+        selected.set(dependency, skill);
+        visited.add(dependency);
+
+        await visit(dependency, skill.source, readDependencies(dependency, frontmatter), [...chain, dependency]);
+        order.push(skill);
+      }
+    };
+
+    await visit(name, options.source, readDependencies(name, readFrontmatter(files)), [name]);
+    return order;
+  }
+
+  /**
+   * Refuse to replace a skill with a version its installed dependents do not accept
+   */
+  private async checkDependents(name: string, version: string | undefined): Promise<void> {
+    for (const dependent of await this.getDependents(name)) {
+      const skill = await this.getSkill(dependent);
+      const value = skill?.dependencies?.[name];
+      if (value) {
+        checkRange(dependent, name, dependencySpecifier(name, value).range, version);
+      }
+    }
+  }
+
+  /**
+   * Names of installed skills that depend on a skill
+   */
+  async getDependents(name: string): Promise<string[]> {
+    const manifest = await this.getManifest();
+    return manifest.skills.find((s) => s.name === name)?.requiredBy ?? [];
+  }
+
+  /**
+   * Symlink a local skill directory into the skills path, so edits show up
+   * without reinstalling. Returns the skill name and its path in the skills
+   * directory.
+   */
+  async linkSkill(dir: string, options: { force?: boolean } = {}): Promise<{ name: string; path: string }> {
+    const target = path.resolve(dir);
+    const skillMdPath = path.join(target, 'SKILL.md');
+
+    if (!(await pathExists(skillMdPath))) {
+      throw new Error(`SKILL.md not found in ${target}`);
+    }
+
+    const frontmatter = validateSkillContent(await fs.readFile(skillMdPath, 'utf-8'), target);
+    const { name } = frontmatter;
+    const skillPath = await getSkillPathAsync(name, this.scope);
+
+    // lstat so that a dangling link still counts as taking the name
+    const existing = await fs.lstat(skillPath).catch(() => null);
+    if (existing) {
+      if (!options.force) {
+        throw new Error(`Skill "${name}" already exists. Use --force to replace it with a link.`);
+      }
+      await fs.rm(skillPath, { recursive: true, force: true });
+    }
+
+    await ensureDir(await this.getBasePath());
+    await fs.symlink(target, skillPath, 'dir');
+
+    // The linked directory changes freely, so no integrity is recorded
+    await this.saveManifestEntry({
+      name,
+      version: frontmatter.version,
+      installedAt: new Date().toISOString(),
+      source: { type: 'local', path: target, linked: true },
+      scope: this.scope,
+      dependencies: frontmatter.dependencies ? Object.keys(frontmatter.dependencies) : undefined,
+    });
+
+    return { name, path: skillPath };
+  }
+
+  /**
+   * Remove a linked skill, leaving the directory it points to untouched
+   */
+  async unlinkSkill(name: string): Promise<void> {
+    if (!isSafeSkillName(name)) {
+      throw new Error(`Invalid skill name: ${JSON.stringify(name)}`);
+    }
+
+    const skillPath = await getSkillPathAsync(name, this.scope);
+    const stat = await fs.lstat(skillPath).catch(() => null);
+
+    if (!stat) {
+      throw new Error(`Skill "${name}" not found`);
+    }
+    if (!stat.isSymbolicLink()) {
+      throw new Error(`Skill "${name}" is not linked. Use "outclaw uninstall" to remove it.`);
+    }
+
+    await fs.unlink(skillPath);
+    await this.removeFromManifest(name);
+  }
+
   /**
    * Uninstall a skill
    */
   async uninstallSkill(name: string): Promise<void> {
+    if (!isSafeSkillName(name)) {
+      throw new Error(`Invalid skill name: ${JSON.stringify(name)}`);
+    }
+
     const skillPath = await getSkillPathAsync(name, this.scope);
 
     if (!(await pathExists(skillPath))) {
@@ -203,59 +668,81 @@ export class SkillManager {
   }
 
   /**
-   * Get manifest
+   * Get manifest (migrated to the current lock file version). Empty when there
+   * is no lock file yet; an unreadable one is an error, so that it is never
+   * overwritten with an empty manifest.
    */
   async getManifest(): Promise<OutclawManifest> {
-    const manifestPath = await getLockFilePathAsync(this.scope);
+    await this.recoverInterruptedInstalls();
 
     try {
-      const content = await fs.readFile(manifestPath, 'utf-8');
-      return JSON.parse(content);
-    } catch {
-      return { version: 1, skills: [] };
+      return (await readLockFile(this.scope)) ?? { version: 2, skills: [] };
+    } catch (error) {
+      const lockPath = await getLockFilePathAsync(this.scope);
+      const details = error instanceof ZodError
+        ? formatValidationErrors(error)
+        : [error instanceof Error ? error.message : String(error)];
+      throw new Error(`Invalid lock file ${lockPath}:\n  ${details.join('\n  ')}`);
     }
   }
 
   /**
    * Update manifest with new skill
    */
-  private async updateManifest(name: string, source: SkillSource): Promise<void> {
-    const manifestPath = await getLockFilePathAsync(this.scope);
-    const manifest = await this.getManifest();
-
-    const entry: SkillManifest = {
+  private async updateManifest(
+    name: string,
+    source: SkillSource,
+    files: SkillFile[],
+    originalName?: string
+  ): Promise<void> {
+    const frontmatter = readFrontmatter(files);
+    const dependencies = Object.keys(readDependencies(name, frontmatter));
+
+    await this.saveManifestEntry({
       name,
-      version: '1.0.0',
+      originalName,
+      version: readVersion(frontmatter),
       installedAt: new Date().toISOString(),
       source,
       scope: this.scope,
-    };
+      integrity: computeIntegrity(files),
+      files: computeFileHashes(files),
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
+    });
+  }
+
+  /**
+   * Add or replace a skill's lock entry
+   */
+  private async saveManifestEntry(entry: SkillManifest): Promise<void> {
+    const manifest = await this.getManifest();
 
     // Update or add skill entry
-    const index = manifest.skills.findIndex((s) => s.name === name);
+    const index = manifest.skills.findIndex((s) => s.name === entry.name);
     if (index >= 0) {
       manifest.skills[index] = entry;
     } else {
       manifest.skills.push(entry);
     }
 
-    await ensureDir(path.dirname(manifestPath));
-    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    linkDependents(manifest);
+    await writeLockFile(this.scope, manifest);
   }
 
   /**
-   * Remove skill from manifest
+   * Remove skills from manifest, leaving their directories alone
    */
-  private async removeFromManifest(name: string): Promise<void> {
-    const manifestPath = await getLockFilePathAsync(this.scope);
+  async removeFromManifest(...names: string[]): Promise<void> {
+    const lockPath = await getLockFilePathAsync(this.scope);
 
-    try {
-      const content = await fs.readFile(manifestPath, 'utf-8');
-      const manifest: OutclawManifest = JSON.parse(content);
-      manifest.skills = manifest.skills.filter((s) => s.name !== name);
-      await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
-    } catch {
+    if (!(await pathExists(lockPath))) {
       // Manifest doesn't exist, nothing to update
+      return;
     }
+
+    const manifest = await this.getManifest();
+    manifest.skills = manifest.skills.filter((s) => !names.includes(s.name));
+    linkDependents(manifest);
+    await writeLockFile(this.scope, manifest);
   }
 }
@@ -0,0 +1,1057 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import semver from 'semver';
+import { ApiClient, type WorkflowSearchResult } from './api-client.js';
+import { fetchClawHubSkill, downloadClawHubZip } from './clawhub.js';
+import { gitHubFetch, gitHubError, gitHubRepositoryUrl } from './github.js';
+import { cached, readCache, writeCache, readCacheRef, writeCacheRef } from './cache.js';
+import {
+  discoverSkills,
+  parseSkillFrontmatter,
+  setSkillMdName,
+  validateSkillContent,
+  type DiscoveredSkill,
+} from '../parsers/skill-parser.js';
+import { getArchiveType, detectArchiveType, extractArchive, type ArchiveType } from '../utils/archive.js';
+import { findSkillRoot, readSkillFiles, withTempDir, type SkillFile } from '../utils/files.js';
+import { isSafeSkillName, pathExists } from '../utils/paths.js';
+import { SkillFrontmatterSchema } from '../schemas/skill.schema.js';
+import type { OutclawManifest, SkillSource } from '../schemas/manifest.schema.js';
+
+export interface ParsedSource {
+  type: 'github' | 'git' | 'url' | 'local' | 'registry' | 'clawhub';
+  owner?: string;
+  repo?: string;
+  host?: string; // GitHub web host, github.com or a GitHub Enterprise host
+  skillPath?: string;
+  ref?: string;
+  url?: string;
+  localPath?: string;
+  registryId?: string; // UUID or slug for registry, slug for ClawHub
+  range?: string; // Semver range for registry installs
+}
+
+const execFileAsync = promisify(execFile);
+
+// UUID regex pattern
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Full SHA-1 or SHA-256 commit
+const FULL_SHA_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/i;
+
+/**
+ * The commit or version at the end of a cache key such as github:owner/repo@<sha>
+ */
+function keyVersion(key: string): string {
+  return key.slice(key.lastIndexOf('@') + 1);
+}
+
+/**
+ * Host of an http(s) URL, or undefined for anything else
+ */
+function urlHost(specifier: string): string | undefined {
+  if (!/^https?:\/\//.test(specifier)) {
+    return undefined;
+  }
+  try {
+    return new URL(specifier).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse skill specifier to determine source
+ * Formats:
+ * - github:owner/repo
+ * - github:owner/repo@ref
+ * - github:owner/repo/path/to/skill
+ * - owner/repo[@ref][/path/to/skill]
+ * - clawhub:slug[@version]
+ * - https://github.com/owner/repo
+ * - https://<gitHubHost>/owner/repo (a GitHub Enterprise host with its API base configured)
+ * - git+ssh://git@host/group/repo.git[#ref][:path/to/skill]
+ * - git+https://host/group/repo.git[#ref][:path/to/skill]
+ * - https://example.com/skill.zip (zip, tarball or raw SKILL.md)
+ * - ./local/path (directory, SKILL.md, .zip or .tgz)
+ * - <uuid> (registry ID)
+ * - <name> (registry search - single word)
+ * - <name>@<range> (registry search, best version matching a semver range)
+ */
+export function parseSkillSpecifier(specifier: string, gitHubHost = 'github.com'): ParsedSource {
+  const isGitHubUrl = specifier.includes('github.com') || urlHost(specifier) === gitHubHost;
+
+  // Generic git remote: git+<protocol>://... or scp-like git@host:path
+  if (
+    specifier.startsWith('git+') ||
+    specifier.startsWith('git@') ||
+    specifier.startsWith('ssh://') ||
+    (/^https?:\/\/[^#]+\.git(#.*)?$/.test(specifier) && !isGitHubUrl)
+  ) {
+    const hashIndex = specifier.indexOf('#');
+    const remote = hashIndex >= 0 ? specifier.slice(0, hashIndex) : specifier;
+    const fragment = hashIndex >= 0 ? specifier.slice(hashIndex + 1) : '';
+    const colonIndex = fragment.indexOf(':');
+    const ref = colonIndex >= 0 ? fragment.slice(0, colonIndex) : fragment;
+    const skillPath = colonIndex >= 0 ? fragment.slice(colonIndex + 1) : '';
+
+    return {
+      type: 'git',
+      url: remote.replace(/^git\+/, ''),
+      ref: ref || undefined,
+      skillPath: skillPath.replace(/^\/+|\/+$/g, '') || undefined,
+    };
+  }
+
+  // ClawHub: clawhub:slug[@version]
+  if (specifier.startsWith('clawhub:')) {
+    const [slug, version] = specifier.slice(8).split('@');
+    return {
+      type: 'clawhub',
+      registryId: slug,
+      ref: version || undefined,
+    };
+  }
+
+  // GitHub shorthand: github:owner/repo[@ref][/path]
+  if (specifier.startsWith('github:')) {
+    const rest = specifier.slice(7);
+    const [ownerRepo, ...pathParts] = rest.split('/');
+    const [owner, repoWithRef] = ownerRepo.includes('/')
+      ? [ownerRepo.split('/')[0], ownerRepo.split('/').slice(1).join('/')]
+      : [ownerRepo, pathParts[0]];
+
+    let repo = repoWithRef || pathParts[0] || '';
+    let ref: string | undefined;
+
+    if (repo.includes('@')) {
+      [repo, ref] = repo.split('@');
+    }
+
+    const skillPath = pathParts.slice(1).join('/');
+
+    return {
+      type: 'github',
+      owner,
+      repo,
+      host: gitHubHost,
+      ref,
+      skillPath: skillPath || undefined,
+    };
+  }
+
+  // GitHub (or GitHub Enterprise) URL
+  if (isGitHubUrl) {
+    const url = new URL(specifier);
+    const parts = url.pathname.slice(1).split('/');
+    const owner = parts[0];
+    let repo = parts[1];
+    let ref: string | undefined;
+
+    // Handle .git suffix
+    if (repo?.endsWith('.git')) {
+      repo = repo.slice(0, -4);
+    }
+
+    // Handle tree/branch reference
+    if (parts[2] === 'tree' && parts[3]) {
+      ref = parts[3];
+    }
+
+    const skillPath = parts.slice(4).join('/');
+
+    return {
+      type: 'github',
+      owner,
+      repo,
+      host: url.host,
+      ref,
+      skillPath: skillPath || undefined,
+    };
+  }
+
+  // Generic URL
+  if (specifier.startsWith('http://') || specifier.startsWith('https://')) {
+    return {
+      type: 'url',
+      url: specifier,
+    };
+  }
+
+  // Local path
+  if (
+    specifier === '.' ||
+    specifier.startsWith('./') ||
+    specifier.startsWith('/') ||
+    specifier.startsWith('../') ||
+    getArchiveType(specifier) !== null
+  ) {
+    return {
+      type: 'local',
+      localPath: specifier,
+    };
+  }
+
+  // GitHub shorthand: owner/repo
+  if (specifier.includes('/')) {
+    const [owner, repoWithRef, ...pathParts] = specifier.split('/');
+    let repo = repoWithRef;
+    let ref: string | undefined;
+
+    if (repo?.includes('@')) {
+      [repo, ref] = repo.split('@');
+    }
+
+    const skillPath = pathParts.join('/');
+
+    return {
+      type: 'github',
+      owner,
+      repo,
+      host: gitHubHost,
+      ref,
+      skillPath: skillPath || undefined,
+    };
+  }
+
+  // UUID - registry ID
+  if (UUID_PATTERN.test(specifier)) {
+    return {
+      type: 'registry',
+      registryId: specifier,
+    };
+  }
+
+  // Registry name with a semver range: name@^1.2.0
+  const rangeMatch = specifier.match(/^([^@\s]+)@(.+)$/);
+  if (rangeMatch) {
+    return {
+      type: 'registry',
+      registryId: rangeMatch[1],
+      range: rangeMatch[2],
+    };
+  }
+
+  // Single name - assume registry search/slug
+  return {
+    type: 'registry',
+    registryId: specifier,
+  };
+}
+
+export interface FetchedSkill {
+  name: string;
+  files: SkillFile[];
+}
+
+export type SkillSelector = (candidates: DiscoveredSkill[]) => Promise<DiscoveredSkill[]>;
+
+/**
+ * Read the name from SKILL.md frontmatter without validating it
+ */
+function getFrontmatterName(content: string): string | undefined {
+  const { frontmatter } = parseSkillFrontmatter(content);
+  return typeof frontmatter.name === 'string' ? frontmatter.name : undefined;
+}
+
+/**
+ * Read a skill directory's file tree. Content is validated once fetching is
+ * done, in fetchSkills.
+ */
+async function loadSkillDir(dir: string, label: string = dir): Promise<FetchedSkill> {
+  const skillMdPath = path.join(dir, 'SKILL.md');
+  if (!(await pathExists(skillMdPath))) {
+    throw new Error(`SKILL.md not found in ${label}`);
+  }
+
+  let name: string | undefined;
+  try {
+    name = getFrontmatterName(await fs.readFile(skillMdPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid SKILL.md in ${label}: ${message}`);
+  }
+
+  return { name: name ?? path.basename(dir), files: await readSkillFiles(dir) };
+}
+
+/**
+ * Resolve a local directory, SKILL.md file or archive into a skill.
+ * Archives and bare SKILL.md files are staged in a temp directory.
+ */
+async function resolveLocalSkill(localPath: string): Promise<FetchedSkill & { absolutePath: string }> {
+  const absolutePath = path.resolve(localPath);
+
+  let stat;
+  try {
+    stat = await fs.stat(absolutePath);
+  } catch {
+    throw new Error(`Path not found: ${localPath}`);
+  }
+
+  if (stat.isDirectory()) {
+    return { ...(await loadSkillDir(absolutePath)), absolutePath };
+  }
+
+  const archiveType = getArchiveType(absolutePath);
+  if (!archiveType && path.basename(absolutePath).toLowerCase() !== 'skill.md') {
+    throw new Error(`Unsupported local source: ${localPath}. Expected a directory, SKILL.md, .zip or .tgz`);
+  }
+
+  const skill = await withTempDir('local', async (tempDir) => {
+    if (archiveType) {
+      await extractArchive(absolutePath, tempDir, archiveType);
+      return await loadSkillDir(await findSkillRoot(tempDir), localPath);
+    }
+    await fs.copyFile(absolutePath, path.join(tempDir, 'SKILL.md'));
+    return await loadSkillDir(tempDir, localPath);
+  });
+
+  return { ...skill, absolutePath };
+}
+
+/**
+ * Download a raw SKILL.md, zip or tarball from a URL
+ */
+async function fetchFromUrl(url: string, offline = false): Promise<FetchedSkill> {
+  let contentType = '';
+
+  // URLs can change upstream, so the cache is only used offline
+  const data = await cached(`url:${url}`, async () => {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error(`Nothing found at ${url}`);
+      }
+      throw new Error(`Failed to download skill: ${response.status} ${response.statusText}`);
+    }
+
+    contentType = response.headers.get('content-type') || '';
+    return Buffer.from(await response.arrayBuffer());
+  }, { offline, refresh: true });
+  const archiveType = detectArchiveType(data) ?? getArchiveType(new URL(url).pathname);
+
+  if (archiveType) {
+    return await loadSkillArchive(data, archiveType, url);
+  }
+
+  const content = data.toString('utf-8');
+  if (contentType.includes('text/html') || !content.trimStart().startsWith('---')) {
+    throw new Error(
+      `URL did not return a SKILL.md or archive (content-type: ${contentType || 'unknown'})`
+    );
+  }
+
+  return await withTempDir('url', async (tempDir) => {
+    await fs.writeFile(path.join(tempDir, 'SKILL.md'), content, 'utf-8');
+    return await loadSkillDir(tempDir, url);
+  });
+}
+
+/**
+ * Extract a downloaded skill archive and load the skill inside it
+ */
+async function loadSkillArchive(data: Buffer, archiveType: ArchiveType, label: string): Promise<FetchedSkill> {
+  return await withTempDir('archive', async (tempDir) => {
+    const archivePath = path.join(tempDir, `download.${archiveType}`);
+    const extractDir = path.join(tempDir, 'extracted');
+    await fs.writeFile(archivePath, data);
+    await extractArchive(archivePath, extractDir, archiveType);
+    return await loadSkillDir(await findSkillRoot(extractDir), label);
+  });
+}
+
+/**
+ * Download a skill from ClawHub at the requested or latest version
+ */
+async function fetchFromClawHub(
+  slug: string,
+  version?: string,
+  offline = false
+): Promise<FetchedSkill & { version: string }> {
+  const latestRef = `clawhub:${slug}`;
+
+  let resolvedVersion = version;
+  if (!resolvedVersion) {
+    if (offline) {
+      const key = await readCacheRef(latestRef);
+      resolvedVersion = key && keyVersion(key);
+    } else {
+      resolvedVersion = (await fetchClawHubSkill(slug)).latestVersion?.version;
+    }
+  }
+
+  if (!resolvedVersion) {
+    throw new Error(
+      offline
+        ? `clawhub:${slug} is not in the download cache (offline).`
+        : `No version found for "${slug}" on ClawHub.`
+    );
+  }
+
+  const key = `clawhub:${slug}@${resolvedVersion}`;
+  const zip = await cached(key, () => downloadClawHubZip(slug, resolvedVersion), { offline });
+  if (!version) {
+    await writeCacheRef(latestRef, key);
+  }
+
+  const skill = await loadSkillArchive(zip, 'zip', `clawhub:${slug}@${resolvedVersion}`);
+  return { ...skill, version: resolvedVersion };
+}
+
+interface RepositoryFetchResult {
+  commit: string;
+  skills: Array<FetchedSkill & { path: string }>;
+}
+
+/**
+ * Resolve a branch, tag or SHA on GitHub (or the given GitHub host) to a full commit SHA
+ */
+export async function resolveGitHubCommit(owner: string, repo: string, ref?: string, host?: string): Promise<string> {
+  const repoLabel = `${owner}/${repo}${ref ? `@${ref}` : ''}`;
+
+  // HEAD resolves to the default branch
+  const response = await gitHubFetch(
+    `/repos/${owner}/${repo}/commits/${ref || 'HEAD'}`,
+    'application/vnd.github.sha',
+    host
+  );
+
+  if (!response.ok) {
+    throw await gitHubError(response, repoLabel);
+  }
+
+  return (await response.text()).trim();
+}
+
+/**
+ * Environment for git child processes: never block on an interactive credential prompt
+ */
+function gitEnv(): NodeJS.ProcessEnv {
+  return { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+}
+
+/**
+ * Run git with gitEnv() and return its stdout, failing with git's own message
+ * rather than the command line. Callers pass remotes after `--` so a URL is
+ * never read as an option.
+ */
+async function runGit(args: string[], cwd?: string): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, env: gitEnv(), maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw stderr ? new Error(stderr) : error;
+  }
+}
+
+/**
+ * Resolve a branch or tag on an arbitrary git remote to a commit SHA without cloning
+ */
+export async function resolveGitRemoteCommit(url: string, ref?: string): Promise<string> {
+  // Peeled tags are only listed when asked for by their ^{} name
+  const output = await runGit(['ls-remote', '--', url, ...(ref ? [ref, `${ref}^{}`] : ['HEAD'])]);
+  const lines = output.trim().split('\n').filter(Boolean).map((line) => line.split('\t'));
+
+  // ls-remote matches refs by their tail (main also matches feature/main), so
+  // pick the exact ref: a branch, then the peeled commit (^{}) of an annotated
+  // tag, then a lightweight tag, then a full ref name such as HEAD
+  const candidates = ref ? [`refs/heads/${ref}`, `refs/tags/${ref}^{}`, `refs/tags/${ref}`, ref] : ['HEAD'];
+  const match = candidates.map((name) => lines.find(([, line]) => line === name)).find(Boolean);
+
+  if (!match) {
+    // A ref that is already a commit SHA does not show up in ls-remote
+    if (ref && /^[0-9a-f]{7,40}$/i.test(ref)) {
+      return ref;
+    }
+    throw new Error(`Ref ${ref || 'HEAD'} not found in ${url}`);
+  }
+
+  return match[0];
+}
+
+/**
+ * Download the repository tarball from GitHub at a resolved commit and load
+ * the selected skills. With an explicit skill path only that directory is
+ * loaded, otherwise the repository is scanned for every SKILL.md.
+ */
+async function fetchFromGitHub(
+  source: ParsedSource,
+  select: SkillSelector,
+  lockedCommit?: string,
+  offline = false
+): Promise<RepositoryFetchResult> {
+  const { owner, repo, ref, host, skillPath = '' } = source;
+  const repoLabel = `${owner}/${repo}${ref ? `@${ref}` : ''}`;
+  // Repositories on an Enterprise host are cached apart from github.com ones
+  const cacheName = host && host !== 'github.com' ? `${host}/${owner}/${repo}` : `${owner}/${repo}`;
+  const refKey = `github:${cacheName}#${ref || 'HEAD'}`;
+
+  let commit = lockedCommit;
+  if (!commit && offline) {
+    const key = await readCacheRef(refKey);
+    if (!key) {
+      throw new Error(`${repoLabel} is not in the download cache (offline).`);
+    }
+    commit = keyVersion(key);
+  }
+  commit ??= await resolveGitHubCommit(owner!, repo!, ref, host);
+
+  const key = `github:${cacheName}@${commit}`;
+  const data = await cached(key, async () => {
+    const response = await gitHubFetch(`/repos/${owner}/${repo}/tarball/${commit}`, 'application/vnd.github+json', host);
+
+    if (!response.ok) {
+      throw await gitHubError(response, `${repoLabel} at commit ${commit}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }, { offline });
+
+  if (!lockedCommit) {
+    await writeCacheRef(refKey, key);
+  }
+
+  const skills = await loadRepositoryArchive(data, 'tar.gz', skillPath, repoLabel, select);
+  return { commit, skills };
+}
+
+/**
+ * Clone an arbitrary git remote, check out the ref (or the locked commit)
+ * and load the selected skills. The checked-out tree is cached as a tarball
+ * keyed by commit, so a known commit needs no clone.
+ */
+async function fetchFromGit(
+  source: ParsedSource,
+  select: SkillSelector,
+  lockedCommit?: string,
+  offline = false
+): Promise<RepositoryFetchResult> {
+  const { url, ref, skillPath = '' } = source;
+  const repoLabel = `${url}${ref ? `#${ref}` : ''}`;
+  const refKey = `git:${url}#${ref || 'HEAD'}`;
+
+  let commit = lockedCommit;
+  if (!commit && offline) {
+    const key = await readCacheRef(refKey);
+    if (!key) {
+      throw new Error(`${repoLabel} is not in the download cache (offline).`);
+    }
+    commit = keyVersion(key);
+  }
+  commit ??= await resolveGitRemoteCommit(url!, ref);
+
+  // A short SHA ref is only resolved to a full commit by cloning
+  if (FULL_SHA_PATTERN.test(commit)) {
+    const hit = await readCache(`git:${url}@${commit}`);
+    if (hit) {
+      const skills = await loadRepositoryArchive(hit, 'tar', skillPath, repoLabel, select);
+      return { commit, skills };
+    }
+  }
+
+  if (offline) {
+    throw new Error(`${repoLabel} is not in the download cache (offline).`);
+  }
+
+  const { data, fullCommit } = await withTempDir('git', async (tempDir) => {
+    try {
+      await runGit(['clone', '--quiet', '--no-checkout', '--filter=blob:none', '--', url!, tempDir]);
+      await runGit(['checkout', '--quiet', commit!], tempDir);
+      return {
+        fullCommit: (await runGit(['rev-parse', 'HEAD'], tempDir)).trim(),
+        data: (
+          await execFileAsync('git', ['archive', '--format=tar', '--prefix=repo/', 'HEAD'], {
+            cwd: tempDir,
+            env: gitEnv(),
+            encoding: 'buffer',
+            maxBuffer: 1024 * 1024 * 1024,
+          })
+        ).stdout,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message.trim() : String(error);
+      throw new Error(`Failed to fetch ${repoLabel}: ${message}`);
+    }
+  });
+
+  const key = `git:${url}@${fullCommit}`;
+  await writeCache(key, data);
+  if (!lockedCommit) {
+    await writeCacheRef(refKey, key);
+  }
+
+  const skills = await loadRepositoryArchive(data, 'tar', skillPath, repoLabel, select);
+  return { commit: fullCommit, skills };
+}
+
+/**
+ * Extract a repository archive that wraps its tree in a single directory
+ * and load the selected skills from it
+ */
+async function loadRepositoryArchive(
+  data: Buffer,
+  archiveType: ArchiveType,
+  skillPath: string,
+  repoLabel: string,
+  select: SkillSelector
+): Promise<Array<FetchedSkill & { path: string }>> {
+  return await withTempDir('repo', async (tempDir) => {
+    const archivePath = path.join(tempDir, `repo.${archiveType}`);
+    const extractDir = path.join(tempDir, 'extracted');
+    await fs.writeFile(archivePath, data);
+    await extractArchive(archivePath, extractDir, archiveType);
+
+    // GitHub tarballs use <owner>-<repo>-<sha>/, git archives repo/
+    const [rootDir] = await fs.readdir(extractDir);
+    return await loadRepositorySkills(path.join(extractDir, rootDir), skillPath, repoLabel, select);
+  });
+}
+
+/**
+ * Load one skill subdirectory, or discover and select skills across a checked-out repository
+ */
+async function loadRepositorySkills(
+  repoRoot: string,
+  skillPath: string,
+  repoLabel: string,
+  select: SkillSelector
+): Promise<Array<FetchedSkill & { path: string }>> {
+  if (skillPath) {
+    const skillDir = path.resolve(repoRoot, skillPath);
+    if (!skillDir.startsWith(repoRoot + path.sep)) {
+      throw new Error(`Invalid skill path: ${skillPath}`);
+    }
+    const skill = await loadSkillDir(skillDir, `${repoLabel}/${skillPath}`);
+    return [{ ...skill, path: skillPath }];
+  }
+
+  const candidates = await discoverSkills(repoRoot);
+  if (candidates.length === 0) {
+    throw new Error(`No SKILL.md found in ${repoLabel}`);
+  }
+
+  const selected = candidates.length === 1 ? candidates : await select(candidates);
+  const skills: Array<FetchedSkill & { path: string }> = [];
+
+  for (const candidate of selected) {
+    const label = candidate.path ? `${repoLabel}/${candidate.path}` : repoLabel;
+    const skill = await loadSkillDir(path.join(repoRoot, candidate.path), label);
+    skills.push({ ...skill, path: candidate.path });
+  }
+
+  return skills;
+}
+
+/**
+ * Find the commit a repository source was locked to by a previous install
+ */
+export function findLockedCommit(manifest: OutclawManifest, source: ParsedSource): string | undefined {
+  if (source.type !== 'github' && source.type !== 'git') {
+    return undefined;
+  }
+
+  // GitHub sources are compared by host and owner/repo, so that a URL and the
+  // github: shorthand for the same repository match
+  const isSameRepository = (locked: SkillSource): boolean => {
+    if (source.type === 'git') {
+      return locked.url === source.url;
+    }
+    const { owner, repo, host } = parseLockedSource(locked);
+    return host === source.host && owner === source.owner && repo === source.repo;
+  };
+
+  const entry = manifest.skills.find(
+    (s) =>
+      s.source.type === source.type &&
+      isSameRepository(s.source) &&
+      s.source.ref === source.ref &&
+      s.source.resolvedCommit &&
+      (!source.skillPath || s.source.path === source.skillPath)
+  );
+  return entry?.source.resolvedCommit;
+}
+
+/**
+ * Turn a lock entry source back into a parsed source for reinstalling
+ */
+export function parseLockedSource(source: SkillSource): ParsedSource {
+  switch (source.type) {
+    case 'local':
+      return { type: 'local', localPath: source.path };
+    case 'url':
+      return { type: 'url', url: source.url };
+    case 'registry':
+      return { type: 'registry', registryId: source.id, range: source.range };
+    case 'clawhub':
+      return { type: 'clawhub', registryId: source.id, ref: source.ref };
+    case 'git':
+      return { type: 'git', url: source.url, ref: source.ref, skillPath: source.path };
+    case 'github': {
+      const url = new URL(source.url!);
+      const [owner, repo] = url.pathname.slice(1).split('/');
+      return { type: 'github', owner, repo, host: url.host, ref: source.ref, skillPath: source.path };
+    }
+  }
+}
+
+export interface RegistryVersion {
+  workflow: WorkflowSearchResult;
+  version: string;
+}
+
+function getFrontmatterVersion(content: string): string | undefined {
+  const { frontmatter } = parseSkillFrontmatter(content);
+  return typeof frontmatter.version === 'string' ? frontmatter.version : undefined;
+}
+
+/**
+ * Find the highest published version of a registry skill that satisfies a
+ * semver range. The registry has no version listing, so every workflow whose
+ * title or slug matches the name exactly is compared by its frontmatter version.
+ */
+export async function resolveRegistryVersion(
+  client: ApiClient,
+  name: string,
+  range: string
+): Promise<RegistryVersion> {
+  if (!semver.validRange(range)) {
+    throw new Error(`Invalid version range "${range}" for ${name}.`);
+  }
+
+  const results = await client.searchWorkflows(name, { limit: 50 });
+  const matches = results.workflows.filter(
+    (w) => w.title.toLowerCase() === name.toLowerCase() || w.slug === name
+  );
+
+  if (matches.length === 0) {
+    throw new Error(`No skill named "${name}" found in the registry.`);
+  }
+
+  const versions: RegistryVersion[] = [];
+  for (const workflow of matches) {
+    const detail = await client.getWorkflow(workflow.id);
+    const version = semver.valid(getFrontmatterVersion(detail.content || ''));
+    if (version) {
+      versions.push({ workflow, version });
+    }
+  }
+
+  const best = semver.maxSatisfying(versions.map((v) => v.version), range);
+  if (!best) {
+    const available = versions.map((v) => v.version).sort(semver.compare);
+    throw new Error(
+      `No published version of "${name}" satisfies ${range}` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no versioned releases found)')
+    );
+  }
+
+  return versions.find((v) => v.version === best)!;
+}
+
+interface RegistryFetchResult {
+  name: string;
+  content: string;
+  workflowId: string;
+  version?: string;
+}
+
+async function fetchFromRegistry(
+  client: ApiClient,
+  registryId: string,
+  options: { range?: string; onWarning?: (message: string) => void } = {}
+): Promise<RegistryFetchResult> {
+  const { range, onWarning } = options;
+
+  // Check if it's a UUID or need to search
+  if (UUID_PATTERN.test(registryId)) {
+    // Direct ID - download
+    const content = await client.downloadWorkflow(registryId);
+    const workflow = await client.getWorkflow(registryId);
+    const version = getFrontmatterVersion(content);
+
+    if (range && !(version && semver.satisfies(version, range))) {
+      throw new Error(`Workflow ${registryId} is version ${version || 'unversioned'}, which does not satisfy ${range}.`);
+    }
+
+    // Name from the frontmatter, falling back to the title
+    const name = getFrontmatterName(content) ?? workflow.title;
+
+    return { name, content, workflowId: registryId, version };
+  }
+
+  let workflow: WorkflowSearchResult;
+
+  if (range) {
+    workflow = (await resolveRegistryVersion(client, registryId, range)).workflow;
+  } else {
+    // Search by name/slug
+    const results = await client.searchWorkflows(registryId, { limit: 5 });
+
+    if (results.workflows.length === 0) {
+      throw new Error(`No skill found matching "${registryId}" in the registry.`);
+    }
+
+    // If exact match found, use it
+    const exactMatch = results.workflows.find(
+      (w) => w.title.toLowerCase() === registryId.toLowerCase() || w.slug === registryId
+    );
+
+    workflow = exactMatch || results.workflows[0];
+
+    if (!exactMatch && results.workflows.length > 1) {
+      onWarning?.(
+        `Multiple skills found. Installing "${workflow.title}".\n` +
+          'Use the workflow ID for exact match: outclaw install <uuid>'
+      );
+    }
+  }
+
+  // Download the content
+  const content = await client.downloadWorkflow(workflow.id);
+
+  // Name from the frontmatter, falling back to the title
+  const name = getFrontmatterName(content) ?? workflow.title;
+
+  return { name, content, workflowId: workflow.id, version: getFrontmatterVersion(content) };
+}
+
+/**
+ * Fetch a registry skill through the download cache. A workflow's content can
+ * change, so online only exact versions are served from the cache; offline
+ * every request is looked up by the workflow it last resolved to.
+ */
+async function fetchFromRegistryCached(
+  registryId: string,
+  options: { range?: string; offline?: boolean; onWarning?: (message: string) => void }
+): Promise<RegistryFetchResult> {
+  const { range, offline } = options;
+  const isId = UUID_PATTERN.test(registryId);
+  const requestRef = `registry:${registryId}${range ? `@${range}` : ''}`;
+
+  if (offline || (!isId && range && semver.valid(range))) {
+    const key = isId ? `registry:${registryId}` : await readCacheRef(requestRef);
+    const data = key ? await readCache(key) : null;
+
+    if (key && data) {
+      const content = data.toString('utf-8');
+      return {
+        name: getFrontmatterName(content) ?? registryId,
+        content,
+        workflowId: key.slice('registry:'.length),
+        version: getFrontmatterVersion(content),
+      };
+    }
+
+    if (offline) {
+      throw new Error(`${requestRef} is not in the download cache (offline).`);
+    }
+  }
+
+  const client = await ApiClient.create();
+  const result = await fetchFromRegistry(client, registryId, options);
+
+  const key = `registry:${result.workflowId}`;
+  await writeCache(key, Buffer.from(result.content, 'utf-8'));
+  if (!isId) {
+    await writeCacheRef(requestRef, key);
+    if (result.version) {
+      await writeCacheRef(`registry:${registryId}@${result.version}`, key);
+    }
+  }
+
+  return result;
+}
+
+export interface ResolvedSkill extends FetchedSkill {
+  source: SkillSource;
+  originalName?: string; // Name declared at the source when installed under an alias
+}
+
+export interface FetchSkillsOptions {
+  select?: SkillSelector; // Picks from multi-skill repositories, defaults to all
+  lockedCommit?: string; // Fetch this commit instead of resolving the ref
+  lockedVersion?: string; // Fetch this registry or ClawHub version instead of resolving the range or latest
+  offline?: boolean; // Serve everything from the download cache
+  skipValidation?: boolean; // Install content that fails SkillFrontmatterSchema
+  onProgress?: (message: string) => void;
+  onWarning?: (message: string) => void;
+}
+
+/**
+ * Human-readable origin of a fetched skill, for messages
+ */
+export function describeSource(source: SkillSource): string {
+  switch (source.type) {
+    case 'local':
+      return source.path!;
+    case 'url':
+      return source.url!;
+    case 'registry':
+      return `registry:${source.id}${source.resolvedVersion ? `@${source.resolvedVersion}` : ''}`;
+    case 'clawhub':
+      return `clawhub:${source.id}@${source.resolvedVersion}`;
+    case 'github':
+    case 'git':
+      return `${source.url}${source.path ? `/${source.path}` : ''}`;
+  }
+}
+
+/**
+ * Validate fetched SKILL.md content and return the skill name it declares.
+ * Even without validation the name must be a plain directory name.
+ */
+function validateFetchedSkill(skill: ResolvedSkill, skipValidation?: boolean): string {
+  const label = describeSource(skill.source);
+  const skillMd = skill.files.find((f) => f.path === 'SKILL.md');
+  if (!skillMd) {
+    throw new Error(`SKILL.md not found in ${label}`);
+  }
+
+  const content = skillMd.content.toString('utf-8');
+  const name = skipValidation ? getFrontmatterName(content) : validateSkillContent(content, label).name;
+
+  if (!name || !isSafeSkillName(name)) {
+    throw new Error(`Refusing to install ${label}: invalid skill name ${JSON.stringify(name ?? '')}`);
+  }
+  return name;
+}
+
+/**
+ * Fetch and validate every skill a parsed source resolves to, together with
+ * the source entry to record in the lock file
+ */
+export async function fetchSkills(
+  source: ParsedSource,
+  options: FetchSkillsOptions = {}
+): Promise<ResolvedSkill[]> {
+  const skills = await fetchSourceSkills(source, options);
+  return skills.map((skill) => ({ ...skill, name: validateFetchedSkill(skill, options.skipValidation) }));
+}
+
+/**
+ * Install a fetched skill under another name: the SKILL.md frontmatter name is
+ * rewritten and the name declared at the source is kept as originalName
+ */
+export function aliasSkill(skill: ResolvedSkill, alias: string): ResolvedSkill {
+  const result = SkillFrontmatterSchema.shape.name.safeParse(alias);
+  if (!result.success) {
+    throw new Error(`Invalid name "${alias}": ${result.error.issues[0].message}`);
+  }
+
+  const originalName = skill.originalName ?? skill.name;
+  if (alias === originalName) {
+    return { ...skill, originalName: undefined };
+  }
+
+  return {
+    ...skill,
+    name: alias,
+    originalName,
+    files: skill.files.map((file) =>
+      file.path === 'SKILL.md'
+        ? { ...file, content: Buffer.from(setSkillMdName(file.content.toString('utf-8'), alias), 'utf-8') }
+        : file
+    ),
+  };
+}
+
+async function fetchSourceSkills(
+  source: ParsedSource,
+  options: FetchSkillsOptions
+): Promise<ResolvedSkill[]> {
+  const { onProgress, offline } = options;
+
+  if (source.type === 'local') {
+    onProgress?.(`Reading local skill: ${source.localPath}...`);
+    const result = await resolveLocalSkill(source.localPath!);
+
+    return [{
+      name: result.name,
+      files: result.files,
+      source: {
+        type: 'local',
+        path: result.absolutePath,
+      },
+    }];
+  }
+
+  if (source.type === 'url') {
+    onProgress?.(`Downloading ${source.url}...`);
+    const result = await fetchFromUrl(source.url!, offline);
+
+    return [{
+      ...result,
+      source: {
+        type: 'url',
+        url: source.url,
+      },
+    }];
+  }
+
+  if (source.type === 'registry') {
+    onProgress?.(`Searching registry for "${source.registryId}"...`);
+
+    const result = await fetchFromRegistryCached(source.registryId!, {
+      range: source.range && (options.lockedVersion ?? source.range),
+      offline,
+      onWarning: options.onWarning,
+    });
+
+    return [{
+      name: result.name,
+      files: [{ path: 'SKILL.md', content: Buffer.from(result.content, 'utf-8') }],
+      // Ranged installs keep the name so updates can re-resolve within the range
+      source: source.range
+        ? { type: 'registry', id: source.registryId, range: source.range, resolvedVersion: result.version }
+        : { type: 'registry', id: result.workflowId, resolvedVersion: result.version },
+    }];
+  }
+
+  if (source.type === 'clawhub') {
+    onProgress?.(`Fetching "${source.registryId}" from ClawHub...`);
+    const result = await fetchFromClawHub(source.registryId!, options.lockedVersion ?? source.ref, offline);
+
+    return [{
+      name: result.name,
+      files: result.files,
+      source: {
+        type: 'clawhub',
+        id: source.registryId,
+        ref: source.ref,
+        resolvedVersion: result.version,
+      },
+    }];
+  }
+
+  // Git remote or GitHub repository
+  const select = options.select ?? (async (candidates) => candidates);
+
+  let result: RepositoryFetchResult;
+  if (source.type === 'git') {
+    onProgress?.(`Cloning ${source.url}...`);
+    result = await fetchFromGit(source, select, options.lockedCommit, offline);
+  } else {
+    onProgress?.(`Fetching from GitHub: ${source.owner}/${source.repo}...`);
+    result = await fetchFromGitHub(source, select, options.lockedCommit, offline);
+  }
+
+  // Canonical repository URL recorded in the lock
+  const url = source.type === 'git' ? source.url! : await gitHubRepositoryUrl(source.owner!, source.repo!, source.host);
+
+  return result.skills.map((skill) => ({
+    name: skill.name,
+    files: skill.files,
+    source: {
+      type: source.type,
+      url,
+      ref: source.ref,
+      resolvedCommit: result.commit,
+      path: skill.path || undefined,
+    },
+  }));
+}
@@ -0,0 +1,104 @@
+import semver from 'semver';
+import { ApiClient } from './api-client.js';
+import { fetchClawHubSkill } from './clawhub.js';
+import {
+  parseLockedSource,
+  resolveGitHubCommit,
+  resolveGitRemoteCommit,
+  resolveRegistryVersion,
+} from './sources.js';
+import { parseSkillFrontmatter } from '../parsers/skill-parser.js';
+import type { SkillManifest } from '../schemas/manifest.schema.js';
+import type { Scope } from '../utils/paths.js';
+
+export type UpdateStatus = 'outdated' | 'up-to-date' | 'unknown';
+
+export interface UpdateCheck {
+  name: string;
+  scope: Scope;
+  source: SkillManifest['source']['type'];
+  current: string;
+  latest: string;
+  status: UpdateStatus;
+  error?: string;
+}
+
+function shortSha(sha: string | undefined): string {
+  return sha ? sha.slice(0, 7) : '-';
+}
+
+/**
+ * Compare a lock entry against its source.
+ * GitHub and git sources compare commits, registry skills compare the
+ * published frontmatter version (the best match for ranged installs),
+ * ClawHub skills compare latestVersion.
+ * URL and local sources carry no version information.
+ */
+export async function checkForUpdate(
+  entry: SkillManifest,
+  installedVersion?: string
+): Promise<UpdateCheck> {
+  const check: UpdateCheck = {
+    name: entry.name,
+    scope: entry.scope,
+    source: entry.source.type,
+    current: '-',
+    latest: '-',
+    status: 'unknown',
+  };
+
+  switch (entry.source.type) {
+    case 'github': {
+      const { owner, repo, ref, host } = parseLockedSource(entry.source);
+      const latest = await resolveGitHubCommit(owner!, repo!, ref, host);
+      check.current = shortSha(entry.source.resolvedCommit);
+      check.latest = shortSha(latest);
+      check.status = latest === entry.source.resolvedCommit ? 'up-to-date' : 'outdated';
+      break;
+    }
+
+    case 'git': {
+      const latest = await resolveGitRemoteCommit(entry.source.url!, entry.source.ref);
+      check.current = shortSha(entry.source.resolvedCommit);
+      check.latest = shortSha(latest);
+      // A ref that is already a (short) SHA resolves to itself
+      check.status = entry.source.resolvedCommit?.startsWith(latest) ? 'up-to-date' : 'outdated';
+      break;
+    }
+
+    case 'registry': {
+      const client = await ApiClient.create();
+      let latest: string | undefined;
+
+      if (entry.source.range) {
+        latest = (await resolveRegistryVersion(client, entry.source.id!, entry.source.range)).version;
+      } else {
+        const workflow = await client.getWorkflow(entry.source.id!);
+        const { frontmatter } = parseSkillFrontmatter(workflow.content || '');
+        latest = typeof frontmatter.version === 'string' ? frontmatter.version : undefined;
+      }
+
+      check.current = installedVersion || '-';
+      check.latest = latest || '-';
+      if (latest && installedVersion && semver.valid(latest) && semver.valid(installedVersion)) {
+        check.status = semver.gt(latest, installedVersion) ? 'outdated' : 'up-to-date';
+      }
+      break;
+    }
+
+    case 'clawhub': {
+      const current = entry.source.resolvedVersion;
+      // A requested version pins the install
+      const latest = entry.source.ref || (await fetchClawHubSkill(entry.source.id!)).latestVersion?.version;
+
+      check.current = current || '-';
+      check.latest = latest || '-';
+      if (latest && current) {
+        check.status = latest === current ? 'up-to-date' : 'outdated';
+      }
+      break;
+    }
+  }
+
+  return check;
+}
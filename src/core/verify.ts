@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readLockFile } from './lockfile.js';
+import { hashSkillDirectory } from '../utils/integrity.js';
+import { getSkillsPathAsync, type Scope } from '../utils/paths.js';
+
+export type VerifyStatus = 'ok' | 'modified' | 'missing' | 'unmanaged' | 'unverified' | 'linked';
+
+export interface VerifyResult {
+  name: string;
+  scope: Scope;
+  path: string;
+  status: VerifyStatus;
+  modified: string[];
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * List skill directories in a skills path, skipping hidden entries
+ */
+export async function listSkillDirectories(skillsPath: string): Promise<string[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(skillsPath);
+  } catch {
+    return [];
+  }
+
+  const dirs: string[] = [];
+  for (const entry of entries) {
+    if (entry.startsWith('.')) continue;
+    try {
+      if ((await fs.stat(path.join(skillsPath, entry))).isDirectory()) {
+        dirs.push(entry);
+      }
+    } catch {
+      // Broken entry, not a skill
+    }
+  }
+  return dirs.sort();
+}
+
+/**
+ * Re-hash every skill directory in a scope and compare it with the lock file.
+ * Reports modified, added and removed files, lock entries whose directory is
+ * gone, and directories with no lock entry.
+ */
+export async function verifyScope(scope: Scope): Promise<VerifyResult[]> {
+  const skillsPath = await getSkillsPathAsync(scope);
+  const manifest = await readLockFile(scope);
+  const entries = manifest?.skills ?? [];
+  const dirs = await listSkillDirectories(skillsPath);
+  const results: VerifyResult[] = [];
+
+  for (const entry of entries) {
+    const skillPath = path.join(skillsPath, entry.name);
+    const result: VerifyResult = {
+      name: entry.name,
+      scope,
+      path: skillPath,
+      status: 'ok',
+      modified: [],
+      added: [],
+      removed: [],
+    };
+    results.push(result);
+
+    if (!dirs.includes(entry.name)) {
+      result.status = 'missing';
+      continue;
+    }
+
+    // Linked skills are edited in place and have nothing to compare against
+    if (entry.source.linked) {
+      result.status = 'linked';
+      continue;
+    }
+
+    if (!entry.integrity) {
+      result.status = 'unverified';
+      continue;
+    }
+
+    const actual = await hashSkillDirectory(skillPath);
+    if (actual.integrity === entry.integrity) {
+      continue;
+    }
+
+    result.status = 'modified';
+
+    if (entry.files) {
+      for (const [file, hash] of Object.entries(actual.files)) {
+        if (!(file in entry.files)) {
+          result.added.push(file);
+        } else if (entry.files[file] !== hash) {
+          result.modified.push(file);
+        }
+      }
+      result.removed = Object.keys(entry.files).filter((file) => !(file in actual.files));
+    }
+  }
+
+  for (const dir of dirs) {
+    if (entries.some((e) => e.name === dir)) continue;
+    results.push({
+      name: dir,
+      scope,
+      path: path.join(skillsPath, dir),
+      status: 'unmanaged',
+      modified: [],
+      added: [],
+      removed: [],
+    });
+  }
+
+  return results;
+}
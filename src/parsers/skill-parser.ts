@@ -1,7 +1,15 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import matter from 'gray-matter';
+import type { ZodError } from 'zod';
 import { SkillFrontmatterSchema, type Skill, type SkillFrontmatter } from '../schemas/skill.schema.js';
+import { isSkillPath } from '../utils/files.js';
+
+export interface DiscoveredSkill {
+  name: string;
+  description: string;
+  path: string; // Relative to the scanned root, '' for the root itself
+}
 
 export interface SkillStructure {
   hasSkillMd: boolean;
@@ -109,6 +117,85 @@ export function parseSkillFrontmatter(content: string): { frontmatter: Record<st
   return { frontmatter: data, body: body.trim() };
 }
 
+/**
+ * Scan a directory tree for every SKILL.md and read its name and description
+ */
+export async function discoverSkills(rootDir: string, prefix = ''): Promise<DiscoveredSkill[]> {
+  const dir = path.join(rootDir, prefix);
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const skills: DiscoveredSkill[] = [];
+
+  if (entries.some((e) => e.isFile() && e.name === 'SKILL.md')) {
+    const content = await fs.readFile(path.join(dir, 'SKILL.md'), 'utf-8');
+    const { frontmatter } = parseSkillFrontmatter(content);
+    skills.push({
+      name: typeof frontmatter.name === 'string' ? frontmatter.name : path.basename(dir),
+      description: typeof frontmatter.description === 'string' ? frontmatter.description : '',
+      path: prefix,
+    });
+
+    // A nested skill's own examples/ or references/ are not separate skills
+    if (prefix) {
+      return skills;
+    }
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || !isSkillPath(entry.name)) continue;
+    skills.push(...(await discoverSkills(rootDir, prefix ? `${prefix}/${entry.name}` : entry.name)));
+  }
+
+  return skills;
+}
+
+/**
+ * Validate SKILL.md content against SkillFrontmatterSchema, throwing an error
+ * that lists every problem found
+ */
+export function validateSkillContent(content: string, label: string): SkillFrontmatter {
+  let data: Record<string, unknown>;
+  try {
+    data = matter(content).data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid SKILL.md in ${label}: ${message}`);
+  }
+
+  const result = SkillFrontmatterSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid SKILL.md in ${label}:\n  ${formatValidationErrors(result.error).join('\n  ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Format frontmatter validation errors as readable lines
+ */
+export function formatValidationErrors(error: ZodError): string[] {
+  return error.issues.map((issue) => {
+    const field = issue.path.join('.');
+    return field ? `${field}: ${issue.message}` : issue.message;
+  });
+}
+
+/**
+ * Set the frontmatter name in SKILL.md content, leaving every other line as
+ * written. Adds a frontmatter block when the content has none.
+ */
+export function setSkillMdName(content: string, name: string): string {
+  const match = /^(---\r?\n)([\s\S]*?)(\r?\n---)/.exec(content);
+  if (!match) {
+    return `---\nname: ${name}\n---\n\n${content}`;
+  }
+
+  const [frontmatter, open, block, close] = match;
+  const updated = /^name\s*:.*$/m.test(block)
+    ? block.replace(/^name\s*:.*$/m, `name: ${name}`)
+    : `name: ${name}\n${block}`;
+
+  return open + updated + close + content.slice(frontmatter.length);
+}
+
 /**
  * Generate SKILL.md content from frontmatter and body
  */
@@ -1,2 +1,3 @@
 export * from './skill.schema.js';
 export * from './manifest.schema.js';
+export * from './lint.schema.js';
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const LintRuleSettingSchema = z.enum(['off', 'warn', 'error']);
+
+// .outclaw/lint.json
+export const LintConfigSchema = z.object({
+  rules: z.record(LintRuleSettingSchema).optional(), // Rule ID to severity, or off
+});
+
+export type LintRuleSetting = z.infer<typeof LintRuleSettingSchema>;
+export type LintConfig = z.infer<typeof LintConfigSchema>;
@@ -2,27 +2,60 @@ import { z } from 'zod';
 
 // Source information for installed skills
 export const SkillSourceSchema = z.object({
-  type: z.enum(['registry', 'github', 'git', 'local', 'url']),
+  type: z.enum(['registry', 'github', 'git', 'local', 'url', 'clawhub']),
   url: z.string().optional(), // GitHub/URL source
-  ref: z.string().optional(), // Git ref/branch
-  id: z.string().optional(), // Registry workflow ID
+  ref: z.string().optional(), // Git ref/branch or ClawHub version as requested
+  resolvedCommit: z.string().optional(), // Commit SHA the ref resolved to at install time
+  path: z.string().optional(), // Absolute path for local sources, skill subdirectory for repositories
+  id: z.string().optional(), // Registry workflow ID (name for ranged installs) or ClawHub slug
+  range: z.string().optional(), // Registry semver range as requested
+  resolvedVersion: z.string().optional(), // Registry or ClawHub version installed
+  linked: z.boolean().optional(), // Local skill symlinked into the skills directory instead of copied
+});
+
+// Lock file v1 entry (version was always '1.0.0', no integrity)
+export const SkillManifestV1Schema = z.object({
+  name: z.string(),
+  version: z.string(),
+  installedAt: z.string().datetime(),
+  source: SkillSourceSchema,
+  scope: z.enum(['global', 'project']),
+});
+
+// Lock file v1
+export const OutclawManifestV1Schema = z.object({
+  version: z.literal(1),
+  skills: z.array(SkillManifestV1Schema),
 });
 
 // Individual skill manifest entry
 export const SkillManifestSchema = z.object({
   name: z.string(),
-  version: z.string(),
+  originalName: z.string().optional(), // Frontmatter name at the source when installed under another name
+  version: z.string().optional(), // Frontmatter version, absent for unversioned skills
   installedAt: z.string().datetime(),
   source: SkillSourceSchema,
   scope: z.enum(['global', 'project']),
+  integrity: z.string().optional(), // sha256-<base64> over the installed file tree
+  files: z.record(z.string()).optional(), // Relative path to sha256-<base64> of each installed file
+  dependencies: z.array(z.string()).optional(), // Skills this skill declares as dependencies
+  requiredBy: z.array(z.string()).optional(), // Installed skills that depend on this skill
 });
 
 // Overall outclaw manifest
 export const OutclawManifestSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(2),
   skills: z.array(SkillManifestSchema),
 });
 
+// Any lock file version that can be read (and migrated)
+export const AnyOutclawManifestSchema = z.discriminatedUnion('version', [
+  OutclawManifestV1Schema,
+  OutclawManifestSchema,
+]);
+
 export type SkillSource = z.infer<typeof SkillSourceSchema>;
 export type SkillManifest = z.infer<typeof SkillManifestSchema>;
 export type OutclawManifest = z.infer<typeof OutclawManifestSchema>;
+export type OutclawManifestV1 = z.infer<typeof OutclawManifestV1Schema>;
+export type AnyOutclawManifest = z.infer<typeof AnyOutclawManifestSchema>;
@@ -1,5 +1,17 @@
 import { z } from 'zod';
 
+// Tools a skill can list in allowed-tools
+export const AVAILABLE_TOOLS = [
+  { name: 'Read - Read files', value: 'Read' },
+  { name: 'Write - Write files', value: 'Write' },
+  { name: 'Edit - Edit files', value: 'Edit' },
+  { name: 'Grep - Search file contents', value: 'Grep' },
+  { name: 'Glob - Find files by pattern', value: 'Glob' },
+  { name: 'Bash - Execute shell commands', value: 'Bash' },
+  { name: 'WebFetch - Fetch web content', value: 'WebFetch' },
+  { name: 'WebSearch - Search the web', value: 'WebSearch' },
+];
+
 // SKILL.md frontmatter schema
 export const SkillFrontmatterSchema = z.object({
   name: z
@@ -54,6 +66,9 @@ export const SkillFrontmatterSchema = z.object({
   keywords: z.array(z.string()).optional(),
 
   repository: z.string().optional(),
+
+  // Skill name to install specifier, or a semver range for registry skills
+  dependencies: z.record(z.string()).optional(),
 });
 
 // Full skill schema including content
@@ -1,3 +1,4 @@
 export * from './logger.js';
+export * from './permissions.js';
 export * from './spinner.js';
 export * from './table.js';
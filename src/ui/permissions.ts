@@ -0,0 +1,42 @@
+import { confirm } from '@inquirer/prompts';
+import { formatPermissionDiff, isEscalation, type PermissionDiff } from '../core/permissions.js';
+import { logger } from './logger.js';
+import type { Ora } from './spinner.js';
+
+/**
+ * Show how a replacement changes a skill's permissions and decide whether to
+ * go ahead. Escalations need a confirmation, or --allow-escalation when
+ * there is nobody to ask.
+ */
+export async function approvePermissionChanges(
+  name: string,
+  diff: PermissionDiff | null,
+  options: { yes?: boolean; allowEscalation?: boolean },
+  spin: Ora
+): Promise<boolean> {
+  if (!diff || !isEscalation(diff)) {
+    return true;
+  }
+
+  const wasSpinning = spin.isSpinning;
+  spin.stop();
+
+  logger.warn(`"${name}" changes its permissions:`);
+  for (const line of formatPermissionDiff(diff)) {
+    logger.dim(`    ${line}`);
+  }
+
+  let approved = true;
+  if (options.allowEscalation) {
+    logger.dim('Accepted with --allow-escalation.');
+  } else if (options.yes || !process.stdin.isTTY) {
+    throw new Error(`"${name}" would gain permissions. Review the changes above and re-run with --allow-escalation to accept them.`);
+  } else {
+    approved = await confirm({ message: `Accept the new permissions for "${name}"?`, default: false });
+  }
+
+  if (wasSpinning) {
+    spin.start();
+  }
+  return approved;
+}
@@ -0,0 +1,68 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ensureDir } from './paths.js';
+
+const execFileAsync = promisify(execFile);
+
+export type ArchiveType = 'zip' | 'tar.gz' | 'tar';
+
+const ARCHIVE_EXTENSIONS: Array<[string, ArchiveType]> = [
+  ['.zip', 'zip'],
+  ['.tar.gz', 'tar.gz'],
+  ['.tgz', 'tar.gz'],
+  ['.tar', 'tar'],
+];
+
+/**
+ * Get the archive type from a file name or path, or null if it is not an archive
+ */
+export function getArchiveType(filePath: string): ArchiveType | null {
+  const lower = filePath.toLowerCase();
+  for (const [extension, type] of ARCHIVE_EXTENSIONS) {
+    if (lower.endsWith(extension)) {
+      return type;
+    }
+  }
+  return null;
+}
+
+/**
+ * Detect the archive type of downloaded content from its magic bytes
+ */
+export function detectArchiveType(data: Buffer): ArchiveType | null {
+  // PK\x03\x04 (zip local file header)
+  if (data.length >= 4 && data.readUInt32BE(0) === 0x504b0304) {
+    return 'zip';
+  }
+  // \x1f\x8b (gzip)
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) {
+    return 'tar.gz';
+  }
+  // "ustar" at offset 257 (POSIX tar header)
+  if (data.length >= 262 && data.toString('ascii', 257, 262) === 'ustar') {
+    return 'tar';
+  }
+  return null;
+}
+
+/**
+ * Extract an archive into a directory using the system unzip/tar binaries
+ */
+export async function extractArchive(
+  archivePath: string,
+  destDir: string,
+  type: ArchiveType
+): Promise<void> {
+  await ensureDir(destDir);
+
+  try {
+    if (type === 'zip') {
+      await execFileAsync('unzip', ['-o', '-q', archivePath, '-d', destDir]);
+    } else {
+      const flags = type === 'tar.gz' ? '-xzf' : '-xf';
+      await execFileAsync('tar', [flags, archivePath, '-C', destDir]);
+    }
+  } catch {
+    throw new Error(`Failed to extract ${type} archive: ${archivePath}`);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Run an async task for every item with at most `limit` tasks in flight.
+ * Results keep the input order. When `shouldStop` returns true no new tasks
+ * are started, and items that never ran are left undefined.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  shouldStop: () => boolean = () => false
+): Promise<Array<R | undefined>> {
+  const results: Array<R | undefined> = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !shouldStop()) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ensureDir, pathExists } from './paths.js';
+
+/**
+ * A single file in a skill tree, with a path relative to the skill root
+ */
+export interface SkillFile {
+  path: string;
+  content: Buffer;
+  mode?: number;
+}
+
+// Entries that are never part of an installed skill
+const IGNORED_ENTRIES = new Set(['.git', 'node_modules', '.DS_Store', '__MACOSX']);
+
+/**
+ * Create a temporary directory for staging downloads and extractions
+ */
+export async function createTempDir(prefix: string): Promise<string> {
+  return await fs.mkdtemp(path.join(os.tmpdir(), `outclaw-${prefix}-`));
+}
+
+/**
+ * Run a callback with a temporary directory that is removed afterwards
+ */
+export async function withTempDir<T>(prefix: string, fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await createTempDir(prefix);
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check whether a path should be copied as part of a skill
+ */
+export function isSkillPath(filePath: string): boolean {
+  return !IGNORED_ENTRIES.has(path.basename(filePath));
+}
+
+/**
+ * Find the skill root inside an extracted directory.
+ * Accepts SKILL.md at the top level or inside a single wrapping directory.
+ */
+export async function findSkillRoot(dir: string): Promise<string> {
+  if (await pathExists(path.join(dir, 'SKILL.md'))) {
+    return dir;
+  }
+
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const subdirs = entries.filter((e) => e.isDirectory() && !e.name.startsWith('.') && isSkillPath(e.name));
+
+  if (subdirs.length === 1) {
+    const nested = path.join(dir, subdirs[0].name);
+    if (await pathExists(path.join(nested, 'SKILL.md'))) {
+      return nested;
+    }
+  }
+
+  throw new Error('No SKILL.md found at the root of the skill.');
+}
+
+/**
+ * Recursively read a skill directory into a file tree
+ */
+export async function readSkillFiles(dir: string, prefix = ''): Promise<SkillFile[]> {
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+  const files: SkillFile[] = [];
+
+  for (const entry of entries) {
+    if (!isSkillPath(entry.name)) continue;
+
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const fullPath = path.join(dir, relativePath);
+
+    if (entry.isDirectory()) {
+      files.push(...(await readSkillFiles(dir, relativePath)));
+    } else if (entry.isFile()) {
+      const [content, stat] = await Promise.all([fs.readFile(fullPath), fs.stat(fullPath)]);
+      files.push({ path: relativePath, content, mode: stat.mode & 0o777 });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Write a file tree into a directory, refusing paths that escape it
+ */
+export async function writeSkillFiles(dir: string, files: SkillFile[]): Promise<void> {
+  const root = path.resolve(dir);
+
+  for (const file of files) {
+    const target = path.resolve(root, file.path);
+    if (!target.startsWith(root + path.sep)) {
+      throw new Error(`Refusing to write file outside the skill directory: ${file.path}`);
+    }
+
+    await ensureDir(path.dirname(target));
+    await fs.writeFile(target, file.content, file.mode !== undefined ? { mode: file.mode } : undefined);
+  }
+}
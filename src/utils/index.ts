@@ -1 +1,5 @@
 export * from './paths.js';
+export * from './archive.js';
+export * from './files.js';
+export * from './integrity.js';
+export * from './concurrency.js';
@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { readSkillFiles, type SkillFile } from './files.js';
+
+/**
+ * Compute a sha256 digest over a skill file tree, independent of file order.
+ * Returned in subresource-integrity form: sha256-<base64>
+ */
+export function computeIntegrity(files: SkillFile[]): string {
+  const hash = createHash('sha256');
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+  for (const file of sorted) {
+    hash.update(`${file.path}\0${file.content.length}\0`);
+    hash.update(file.content);
+  }
+
+  return `sha256-${hash.digest('base64')}`;
+}
+
+/**
+ * Compute a sha256 digest for each file, keyed by relative path
+ */
+export function computeFileHashes(files: SkillFile[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const file of [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))) {
+    hashes[file.path] = `sha256-${createHash('sha256').update(file.content).digest('base64')}`;
+  }
+  return hashes;
+}
+
+/**
+ * Compute the integrity digest and per-file hashes of an installed skill directory
+ */
+export async function hashSkillDirectory(
+  dir: string
+): Promise<{ integrity: string; files: Record<string, string> }> {
+  const files = await readSkillFiles(dir);
+  return { integrity: computeIntegrity(files), files: computeFileHashes(files) };
+}
@@ -23,19 +23,37 @@ interface OpenclawConfig {
   };
 }
 
+// Where the OpenClaw config path and the global workspace were taken from
+export type ConfigPathSource = 'OPENCLAW_CONFIG_PATH' | 'OPENCLAW_STATE_DIR' | 'default';
+export type WorkspaceSource = 'agents.defaults.workspace' | 'agent.workspace' | 'agents.list' | 'default';
+
+export interface OpenclawPaths {
+  configPath: string;
+  configSource: ConfigPathSource;
+  workspace: string;
+  workspaceSource: WorkspaceSource;
+}
+
 /**
- * Get OpenClaw config file path
+ * Resolve the OpenClaw config file path and which setting chose it
  */
-function getOpenclawConfigPath(): string {
+function resolveOpenclawConfigPath(): { path: string; source: ConfigPathSource } {
   const override = process.env.OPENCLAW_CONFIG_PATH?.trim();
   if (override) {
-    return resolveUserPath(override);
+    return { path: resolveUserPath(override), source: 'OPENCLAW_CONFIG_PATH' };
   }
   const stateDir = process.env.OPENCLAW_STATE_DIR?.trim();
   if (stateDir) {
-    return path.join(resolveUserPath(stateDir), 'openclaw.json');
+    return { path: path.join(resolveUserPath(stateDir), 'openclaw.json'), source: 'OPENCLAW_STATE_DIR' };
   }
-  return path.join(os.homedir(), '.openclaw', 'openclaw.json');
+  return { path: path.join(os.homedir(), '.openclaw', 'openclaw.json'), source: 'default' };
+}
+
+/**
+ * Get OpenClaw config file path
+ */
+function getOpenclawConfigPath(): string {
+  return resolveOpenclawConfigPath().path;
 }
 
 /**
@@ -75,22 +93,22 @@ async function readOpenclawConfig(): Promise<OpenclawConfig | null> {
 }
 
 /**
- * Get workspace path from OpenClaw config
+ * Find the workspace in OpenClaw config and the key it was read from
  */
-async function getWorkspaceFromConfig(): Promise<string | null> {
+async function findConfigWorkspace(): Promise<{ workspace: string; source: WorkspaceSource } | null> {
   const config = await readOpenclawConfig();
   if (!config) return null;
 
   // Check agents.defaults.workspace first
   const defaultsWorkspace = config.agents?.defaults?.workspace;
   if (defaultsWorkspace) {
-    return resolveUserPath(defaultsWorkspace);
+    return { workspace: resolveUserPath(defaultsWorkspace), source: 'agents.defaults.workspace' };
   }
 
   // Check legacy agent.workspace
   const agentWorkspace = config.agent?.workspace;
   if (agentWorkspace) {
-    return resolveUserPath(agentWorkspace);
+    return { workspace: resolveUserPath(agentWorkspace), source: 'agent.workspace' };
   }
 
   // Check agents.list for default agent
@@ -98,12 +116,34 @@ async function getWorkspaceFromConfig(): Promise<string | null> {
   const defaultAgent = listedAgents.find((entry) => entry.default) ??
     listedAgents.find((entry) => entry.id === 'main');
   if (defaultAgent?.workspace) {
-    return resolveUserPath(defaultAgent.workspace);
+    return { workspace: resolveUserPath(defaultAgent.workspace), source: 'agents.list' };
   }
 
   return null;
 }
 
+/**
+ * Get workspace path from OpenClaw config
+ */
+async function getWorkspaceFromConfig(): Promise<string | null> {
+  return (await findConfigWorkspace())?.workspace ?? null;
+}
+
+/**
+ * Explain how the OpenClaw config file and global workspace were resolved
+ */
+export async function resolveOpenclawPaths(): Promise<OpenclawPaths> {
+  const config = resolveOpenclawConfigPath();
+  const found = await findConfigWorkspace();
+
+  return {
+    configPath: config.path,
+    configSource: config.source,
+    workspace: found?.workspace ?? getDefaultWorkspace(),
+    workspaceSource: found?.source ?? 'default',
+  };
+}
+
 /**
  * Get the default workspace path (fallback)
  */
@@ -159,6 +199,13 @@ export async function getLockFilePathAsync(scope: Scope): Promise<string> {
   return path.join(process.cwd(), '.outclaw', 'lock.json');
 }
 
+/**
+ * Get the lint configuration path for the current project
+ */
+export function getLintConfigPath(): string {
+  return path.join(process.cwd(), '.outclaw', 'lint.json');
+}
+
 /**
  * Get the path to a specific skill
  */
@@ -200,6 +247,14 @@ export async function pathExists(filePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Check that a skill name is a single, visible directory name, so it can
+ * never address a path outside the skills directory
+ */
+export function isSafeSkillName(name: string): boolean {
+  return name.length > 0 && !name.startsWith('.') && !/[\\/\0]/.test(name);
+}
+
 /**
  * Get config directory path (for API credentials)
  */
@@ -207,6 +262,13 @@ export function getConfigPath(): string {
   return path.join(os.homedir(), '.config', 'outclaw');
 }
 
+/**
+ * Get the shared download cache directory
+ */
+export function getCachePath(): string {
+  return path.join(getConfigPath(), 'cache');
+}
+
 /**
  * @deprecated Use getLockFilePath instead
  */
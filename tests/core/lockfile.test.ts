@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { migrateManifest } from '../../src/core/lockfile.js';
+import type { OutclawManifest, OutclawManifestV1 } from '../../src/schemas/manifest.schema.js';
+
+const installedAt = '2025-01-01T00:00:00.000Z';
+
+describe('migrateManifest', () => {
+  it('drops the placeholder version from v1 entries', () => {
+    const v1: OutclawManifestV1 = {
+      version: 1,
+      skills: [
+        {
+          name: 'demo',
+          version: '1.0.0',
+          installedAt,
+          source: { type: 'github', url: 'https://github.com/acme/skills', ref: 'main' },
+          scope: 'project',
+        },
+      ],
+    };
+
+    expect(migrateManifest(v1)).toEqual({
+      version: 2,
+      skills: [
+        {
+          name: 'demo',
+          installedAt,
+          source: { type: 'github', url: 'https://github.com/acme/skills', ref: 'main' },
+          scope: 'project',
+        },
+      ],
+    });
+  });
+
+  it('leaves the integrity of migrated entries to be filled in on write', () => {
+    const migrated = migrateManifest({
+      version: 1,
+      skills: [{ name: 'demo', version: '1.0.0', installedAt, source: { type: 'local', path: '/s/demo' }, scope: 'global' }],
+    });
+
+    expect(migrated.skills[0]).not.toHaveProperty('version');
+    expect(migrated.skills[0]).not.toHaveProperty('integrity');
+  });
+
+  it('returns a v2 lock file unchanged', () => {
+    const v2: OutclawManifest = {
+      version: 2,
+      skills: [
+        {
+          name: 'demo',
+          version: '2.1.0',
+          installedAt,
+          source: { type: 'registry', id: 'demo', resolvedVersion: '2.1.0' },
+          scope: 'project',
+          integrity: 'sha256-abc',
+        },
+      ],
+    };
+
+    expect(migrateManifest(v2)).toBe(v2);
+  });
+});
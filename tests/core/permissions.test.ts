@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { diffPermissions, formatPermissionDiff, isEscalation } from '../../src/core/permissions.js';
+
+describe('diffPermissions', () => {
+  it('lists added and removed tools from a comma-separated string or a list', () => {
+    const diff = diffPermissions({ 'allowed-tools': 'Read, Grep' }, { 'allowed-tools': ['Read', 'Bash(git:*)'] });
+
+    expect(diff).toEqual({ addedTools: ['Bash(git:*)'], removedTools: ['Grep'], changed: [] });
+  });
+
+  it('reports changes to how the skill runs', () => {
+    const diff = diffPermissions({ model: 'haiku' }, { model: 'opus', context: 'fork' });
+
+    expect(diff.changed).toEqual([
+      { field: 'model', from: 'haiku', to: 'opus' },
+      { field: 'context', from: undefined, to: 'fork' },
+    ]);
+  });
+
+  it('finds no difference between identical permissions', () => {
+    const frontmatter = { 'allowed-tools': 'Read', agent: 'explore' };
+
+    expect(diffPermissions(frontmatter, { ...frontmatter, description: 'changed' })).toEqual({
+      addedTools: [],
+      removedTools: [],
+      changed: [],
+    });
+  });
+});
+
+describe('isEscalation', () => {
+  it('escalates when tools are added or the run settings change', () => {
+    expect(isEscalation(diffPermissions({}, { 'allowed-tools': 'Bash' }))).toBe(true);
+    expect(isEscalation(diffPermissions({ agent: 'explore' }, {}))).toBe(true);
+  });
+
+  it('does not escalate when tools are only removed', () => {
+    expect(isEscalation(diffPermissions({ 'allowed-tools': 'Read, Bash' }, { 'allowed-tools': 'Read' }))).toBe(false);
+  });
+});
+
+describe('formatPermissionDiff', () => {
+  it('describes each change on its own line', () => {
+    const diff = diffPermissions({ 'allowed-tools': 'Grep' }, { 'allowed-tools': 'Bash', model: 'opus' });
+
+    expect(formatPermissionDiff(diff)).toEqual([
+      '+ allowed-tools: Bash',
+      '- allowed-tools: Grep',
+      '~ model: (unset) -> opus',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseSkillSpecifier, resolveGitRemoteCommit } from '../../src/core/sources.js';
+
+describe('parseSkillSpecifier', () => {
+  it('parses GitHub shorthand with a ref and a skill path', () => {
+    expect(parseSkillSpecifier('acme/skills@v1.2.0/tools/demo')).toEqual({
+      type: 'github',
+      owner: 'acme',
+      repo: 'skills',
+      host: 'github.com',
+      ref: 'v1.2.0',
+      skillPath: 'tools/demo',
+    });
+    expect(parseSkillSpecifier('github:acme/skills@main/tools/demo')).toMatchObject({
+      type: 'github',
+      owner: 'acme',
+      repo: 'skills',
+      ref: 'main',
+      skillPath: 'tools/demo',
+    });
+  });
+
+  it('parses GitHub URLs with a tree ref', () => {
+    expect(parseSkillSpecifier('https://github.com/acme/skills/tree/dev/tools/demo')).toEqual({
+      type: 'github',
+      owner: 'acme',
+      repo: 'skills',
+      host: 'github.com',
+      ref: 'dev',
+      skillPath: 'tools/demo',
+    });
+    expect(parseSkillSpecifier('https://github.com/acme/skills.git')).toMatchObject({ type: 'github', repo: 'skills' });
+  });
+
+  describe('GitHub Enterprise', () => {
+    const host = 'github.corp.example';
+
+    it('treats URLs on the configured host as GitHub', () => {
+      expect(parseSkillSpecifier(`https://${host}/acme/skills/tree/main/tools/demo`, host)).toEqual({
+        type: 'github',
+        owner: 'acme',
+        repo: 'skills',
+        host,
+        ref: 'main',
+        skillPath: 'tools/demo',
+      });
+      expect(parseSkillSpecifier(`https://${host}/acme/skills.git`, host)).toMatchObject({ type: 'github', host });
+    });
+
+    it('puts shorthand on the configured host', () => {
+      expect(parseSkillSpecifier('acme/skills', host)).toMatchObject({ type: 'github', host });
+      expect(parseSkillSpecifier('github:acme/skills', host)).toMatchObject({ type: 'github', host });
+    });
+
+    it('keeps github.com URLs on github.com', () => {
+      expect(parseSkillSpecifier('https://github.com/acme/skills', host)).toMatchObject({
+        type: 'github',
+        host: 'github.com',
+      });
+    });
+
+    it('treats the host as a plain remote when it is not configured', () => {
+      expect(parseSkillSpecifier(`https://${host}/acme/skills.git`)).toEqual({
+        type: 'git',
+        url: `https://${host}/acme/skills.git`,
+      });
+      expect(parseSkillSpecifier(`https://${host}/acme/skills`)).toEqual({
+        type: 'url',
+        url: `https://${host}/acme/skills`,
+      });
+    });
+  });
+
+  it('parses git remotes with a ref and a skill path', () => {
+    expect(parseSkillSpecifier('git+ssh://git@gitlab.com/group/skills.git#v2:/tools/demo/')).toEqual({
+      type: 'git',
+      url: 'ssh://git@gitlab.com/group/skills.git',
+      ref: 'v2',
+      skillPath: 'tools/demo',
+    });
+    expect(parseSkillSpecifier('git@gitlab.com:group/skills.git')).toEqual({
+      type: 'git',
+      url: 'git@gitlab.com:group/skills.git',
+      ref: undefined,
+      skillPath: undefined,
+    });
+  });
+
+  it('parses local paths and archives', () => {
+    expect(parseSkillSpecifier('./skills/demo')).toEqual({ type: 'local', localPath: './skills/demo' });
+    expect(parseSkillSpecifier('demo.zip')).toEqual({ type: 'local', localPath: 'demo.zip' });
+  });
+
+  it('parses registry and ClawHub specifiers', () => {
+    expect(parseSkillSpecifier('clawhub:demo@1.0.0')).toEqual({ type: 'clawhub', registryId: 'demo', ref: '1.0.0' });
+    expect(parseSkillSpecifier('demo@^1.2.0')).toEqual({ type: 'registry', registryId: 'demo', range: '^1.2.0' });
+    expect(parseSkillSpecifier('demo')).toEqual({ type: 'registry', registryId: 'demo' });
+  });
+});
+
+describe('resolveGitRemoteCommit', () => {
+  let repoDir: string;
+  let url: string;
+
+  function git(...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      encoding: 'utf-8',
+    }).trim();
+  }
+
+  function commit(message: string): string {
+    git('commit', '--allow-empty', '-q', '-m', message);
+    return git('rev-parse', 'HEAD');
+  }
+
+  beforeAll(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outclaw-remote-'));
+    url = `file://${repoDir}`;
+    git('init', '-q', '-b', 'main');
+  });
+
+  afterAll(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('picks the exact branch over one ending in the same name', async () => {
+    const main = commit('main');
+    git('checkout', '-q', '-b', 'feature/main');
+    const feature = commit('feature');
+    git('checkout', '-q', 'main');
+
+    expect(await resolveGitRemoteCommit(url, 'main')).toBe(main);
+    expect(await resolveGitRemoteCommit(url, 'feature/main')).toBe(feature);
+    expect(await resolveGitRemoteCommit(url)).toBe(main);
+  });
+
+  it('resolves annotated tags to the tagged commit', async () => {
+    const tagged = git('rev-parse', 'HEAD');
+    git('tag', '-a', 'v1.0.0', '-m', 'release');
+    git('tag', 'v1.0.1');
+
+    expect(await resolveGitRemoteCommit(url, 'v1.0.0')).toBe(tagged);
+    expect(await resolveGitRemoteCommit(url, 'v1.0.1')).toBe(tagged);
+  });
+
+  it('passes a commit SHA through and rejects unknown refs', async () => {
+    expect(await resolveGitRemoteCommit(url, 'abc1234')).toBe('abc1234');
+    await expect(resolveGitRemoteCommit(url, 'missing')).rejects.toThrow(`Ref missing not found in ${url}`);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { computeFileHashes, computeIntegrity } from '../../src/utils/integrity.js';
+import type { SkillFile } from '../../src/utils/files.js';
+
+function file(path: string, content: string): SkillFile {
+  return { path, content: Buffer.from(content, 'utf-8') };
+}
+
+describe('computeIntegrity', () => {
+  it('returns a sha256 digest in subresource-integrity form', () => {
+    expect(computeIntegrity([file('SKILL.md', 'hello')])).toMatch(/^sha256-[A-Za-z0-9+/]{43}=$/);
+  });
+
+  it('does not depend on file order', () => {
+    const a = file('SKILL.md', 'body');
+    const b = file('scripts/run.sh', 'echo hi');
+
+    expect(computeIntegrity([a, b])).toBe(computeIntegrity([b, a]));
+  });
+
+  it('changes with file content', () => {
+    expect(computeIntegrity([file('SKILL.md', 'one')])).not.toBe(computeIntegrity([file('SKILL.md', 'two')]));
+  });
+
+  it('changes when a file is renamed', () => {
+    expect(computeIntegrity([file('a.md', 'x')])).not.toBe(computeIntegrity([file('b.md', 'x')]));
+  });
+
+  it('does not let content shift across file boundaries', () => {
+    const split = [file('a', 'bc'), file('d', '')];
+    const shifted = [file('a', 'b'), file('d', 'c')];
+
+    expect(computeIntegrity(split)).not.toBe(computeIntegrity(shifted));
+  });
+});
+
+describe('computeFileHashes', () => {
+  it('hashes each file by its relative path', () => {
+    const hashes = computeFileHashes([file('scripts/run.sh', 'echo hi'), file('SKILL.md', 'body')]);
+
+    expect(Object.keys(hashes)).toEqual(['SKILL.md', 'scripts/run.sh']);
+    expect(hashes['SKILL.md']).toBe(computeFileHashes([file('SKILL.md', 'body')])['SKILL.md']);
+    expect(hashes['SKILL.md']).not.toBe(hashes['scripts/run.sh']);
+  });
+});